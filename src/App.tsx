@@ -1,396 +1,378 @@
-import { useState, useCallback } from "react";
-
-interface XrayConfig {
-  remarks?: string;
-  outbounds?: Outbound[];
-  [key: string]: unknown;
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { CodeInput } from "./components/CodeInput";
+import { ComparePanel } from "./components/ComparePanel";
+import {
+  FileDropZone,
+  FileImportButtons,
+  LoadedFiles,
+} from "./components/FileImport";
+import { QrThumbnail } from "./components/QrCode";
+import { DiagnosticsPanel } from "./components/DiagnosticsPanel";
+import { LinkEditor } from "./components/LinkEditor";
+import { LinkInspector } from "./components/LinkInspector";
+import { RemarksTemplateOptions } from "./components/RemarksTemplateOptions";
+import { RoutingOptions } from "./components/RoutingOptions";
+import { ServerModeOptions } from "./components/ServerModeOptions";
+import { SubscriptionPanel } from "./components/SubscriptionPanel";
+import { WorkspacePanel } from "./components/WorkspacePanel";
+import {
+  convertToClash,
+  convertToSingBox,
+  isEditable,
+  isServerConfig,
+  parseConfig,
+  parseCountryMap,
+  parseJsonc,
+  parseLinks,
+  readSubscription,
+  toLinks,
+  type ConfigInput,
+  type ConfigReport,
+  type JsonLocation,
+} from "./converter";
+import { SAMPLE_CONFIGS, SAMPLE_LINK } from "./samples";
+import { displayName, downloadBlob, hasExtension } from "./utils/files";
+import {
+  activeProfile,
+  addHistory,
+  loadWorkspace,
+  saveWorkspace,
+  updateProfile,
+  type HistoryEntry,
+  type SavedInput,
+} from "./utils/workspace";
+
+type ConvertMode = "toLinks" | "toClash" | "toSingBox" | "toConfig";
+
+interface TextOutput {
+  text: string;
+  count: number;
 }
 
-interface Outbound {
-  protocol: string;
-  tag?: string;
-  settings?: Record<string, unknown>;
-  streamSettings?: StreamSettings;
+const MODES: Array<{
+  value: ConvertMode;
+  label: string;
+  output: string;
+  empty: string;
+  action: string;
+}> = [
+  {
+    value: "toLinks",
+    label: "JSON → Links",
+    output: "🔗 Share Links Output",
+    empty: "Converted share links will appear here",
+    action: "Convert to Share Links",
+  },
+  {
+    value: "toClash",
+    label: "JSON → Clash Meta",
+    output: "🐱 Clash Meta YAML Output",
+    empty: "Generated mihomo proxies and groups will appear here",
+    action: "Convert to Clash Meta",
+  },
+  {
+    value: "toSingBox",
+    label: "JSON → sing-box",
+    output: "📦 sing-box Config Output",
+    empty: "Generated sing-box outbounds will appear here",
+    action: "Convert to sing-box",
+  },
+  {
+    value: "toConfig",
+    label: "Links → JSON",
+    output: "📋 JSON Config Output",
+    empty: "Generated Xray configs will appear here",
+    action: "Convert to Xray Config",
+  },
+];
+
+// Count labels and download file for modes that produce one document
+const TEXT_OUTPUTS: Partial<
+  Record<
+    ConvertMode,
+    { unit: string; units: string; file: string; mime: string }
+  >
+> = {
+  toClash: {
+    unit: "proxy",
+    units: "proxies",
+    file: "clash-meta.yaml",
+    mime: "text/yaml",
+  },
+  toSingBox: {
+    unit: "outbound",
+    units: "outbounds",
+    file: "sing-box.json",
+    mime: "application/json",
+  },
+  toConfig: {
+    unit: "config",
+    units: "configs",
+    file: "config.json",
+    mime: "application/json",
+  },
+};
+
+const MODE_LABELS = Object.fromEntries(
+  MODES.map(({ value, label }) => [value, label])
+);
+
+function isMode(value: string): value is ConvertMode {
+  return MODES.some((m) => m.value === value);
 }
 
-interface StreamSettings {
-  network?: string;
-  security?: string;
-  realitySettings?: Record<string, unknown>;
-  tlsSettings?: Record<string, unknown>;
-  wsSettings?: Record<string, unknown>;
-  grpcSettings?: Record<string, unknown>;
-  tcpSettings?: Record<string, unknown>;
-  xhttpSettings?: Record<string, unknown>;
-  httpSettings?: Record<string, unknown>;
-  quicSettings?: Record<string, unknown>;
-  kcpSettings?: Record<string, unknown>;
-  [key: string]: unknown;
-}
+export function App() {
+  const [workspace, setWorkspace] = useState(() => loadWorkspace());
+  const [storageNote, setStorageNote] = useState("");
+  // The input left on the page last time wins over the profile's format
+  const [mode, setMode] = useState<ConvertMode>(() => {
+    const saved = workspace.current.text
+      ? workspace.current.mode
+      : activeProfile(workspace).mode;
+    return isMode(saved) ? saved : "toLinks";
+  });
+  const [input, setInput] = useState(workspace.current.text);
+  const [output, setOutput] = useState<string[]>([]);
+  const [textOutput, setTextOutput] = useState<TextOutput | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [reports, setReports] = useState<ConfigReport[]>([]);
+  const [syntaxError, setSyntaxError] = useState<JsonLocation | null>(null);
+  const [files, setFiles] = useState<ConfigInput[]>([]);
+  const [dedupe, setDedupe] = useState(activeProfile(workspace).dedupe);
+  const [serverMode, setServerMode] = useState(false);
+  const [serverAddress, setServerAddress] = useState("");
+  const [remarksTemplate, setRemarksTemplate] = useState(
+    activeProfile(workspace).remarksTemplate
+  );
+  const [countryText, setCountryText] = useState(
+    activeProfile(workspace).countries
+  );
+  const [excludedOutbounds, setExcludedOutbounds] = useState<
+    Record<string, string[]>
+  >({});
+  const [copied, setCopied] = useState(false);
+  const [copyIdx, setCopyIdx] = useState<number | null>(null);
+  const [inspected, setInspected] = useState("");
+  const inspectorRef = useRef<HTMLDivElement>(null);
+  const [edited, setEdited] = useState("");
+  const editorRef = useRef<HTMLDivElement>(null);
+
+  const modeInfo = MODES.find((m) => m.value === mode) || MODES[0];
+  const textKind = TEXT_OUTPUTS[mode];
+
+  const countryMap = useMemo(() => parseCountryMap(countryText), [countryText]);
+
+  // The settings in use belong to the active profile
+  useEffect(() => {
+    setWorkspace((ws) =>
+      updateProfile(ws, {
+        mode,
+        remarksTemplate,
+        countries: countryText,
+        dedupe,
+      })
+    );
+  }, [mode, remarksTemplate, countryText, dedupe]);
+
+  useEffect(() => {
+    setWorkspace((ws) => ({ ...ws, current: { mode, text: input } }));
+  }, [mode, input]);
+
+  // Written shortly after the last change rather than on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      try {
+        const dropped = saveWorkspace(workspace);
+        setStorageNote(
+          dropped > 0
+            ? `Browser storage is full: the ${dropped} oldest history entr${dropped === 1 ? "y was" : "ies were"} not saved.`
+            : ""
+        );
+      } catch {
+        setStorageNote(
+          "Browser storage is full or blocked, so this workspace is not being saved. Export it to keep it."
+        );
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [workspace]);
+
+  // Pasted text converts alongside any loaded files
+  const sources = useMemo<ConfigInput[]>(
+    () => (input.trim() ? [{ text: input }, ...files] : files),
+    [input, files]
+  );
 
-function buildQueryParams(params: Record<string, string>): string {
-  const parts: string[] = [];
-  for (const [key, value] of Object.entries(params)) {
-    if (value !== undefined && value !== null && value !== "") {
-      parts.push(`${key}=${encodeURIComponent(value)}`);
-    }
-  }
-  return parts.join("&");
-}
+  // Client configs whose routing the exit picker draws; server configs have
+  // no routing to their clients
+  const routedConfigs = useMemo(
+    () =>
+      mode === "toConfig" || serverMode ? [] : parseConfig(sources).configs,
+    [sources, mode, serverMode]
+  );
 
-function extractStreamParams(stream: StreamSettings): Record<string, string> {
-  const params: Record<string, string> = {};
-
-  // Network type
-  const network = stream.network || "tcp";
-  params.type = network;
-
-  // Security
-  const security = stream.security || "none";
-  params.security = security;
-
-  // Reality settings
-  if (security === "reality" && stream.realitySettings) {
-    const rs = stream.realitySettings;
-    if (rs.serverName) params.sni = String(rs.serverName);
-    if (rs.fingerprint) params.fp = String(rs.fingerprint);
-    if (rs.publicKey) params.pbk = String(rs.publicKey);
-    if (rs.shortId) params.sid = String(rs.shortId);
-    if (rs.spiderX) params.spx = String(rs.spiderX);
-  }
-
-  // TLS settings
-  if (security === "tls" && stream.tlsSettings) {
-    const ts = stream.tlsSettings;
-    if (ts.serverName) params.sni = String(ts.serverName);
-    if (ts.fingerprint) params.fp = String(ts.fingerprint);
-    if (ts.alpn) {
-      const alpn = ts.alpn;
-      if (Array.isArray(alpn)) params.alpn = alpn.join(",");
-      else params.alpn = String(alpn);
+  // Proxy inbounds in the pasted JSON suggest server mode
+  const looksLikeServer = useMemo(() => {
+    if (mode === "toConfig" || readSubscription(input)) return false;
+    try {
+      const parsed = parseJsonc(input);
+      return (Array.isArray(parsed) ? parsed : [parsed]).some(isServerConfig);
+    } catch {
+      return false;
     }
-  }
-
-  // Network-specific settings
-  if (network === "ws" && stream.wsSettings) {
-    const ws = stream.wsSettings as Record<string, unknown>;
-    if (ws.path) params.path = String(ws.path);
-    if (ws.headers && typeof ws.headers === "object") {
-      const headers = ws.headers as Record<string, unknown>;
-      if (headers.Host) params.host = String(headers.Host);
+  }, [input, mode]);
+
+  // What the pasted text was recognised as, shown next to the input label
+  const inputKind = useMemo(() => {
+    if (!input.trim()) return null;
+    const subscription = readSubscription(input);
+    if (!subscription) {
+      if (mode === "toConfig") return null;
+      return looksLikeServer ? "JSON server config" : "JSON";
     }
-  }
-
-  if (network === "grpc" && stream.grpcSettings) {
-    const grpc = stream.grpcSettings as Record<string, unknown>;
-    if (grpc.serviceName) params.serviceName = String(grpc.serviceName);
-    if (grpc.mode) params.mode = String(grpc.mode);
-    if (grpc.authority) params.authority = String(grpc.authority);
-  }
-
-  if (network === "tcp" && stream.tcpSettings) {
-    const tcp = stream.tcpSettings as Record<string, unknown>;
-    if (tcp.header && typeof tcp.header === "object") {
-      const header = tcp.header as Record<string, unknown>;
-      if (header.type) params.headerType = String(header.type);
-      if (header.request && typeof header.request === "object") {
-        const req = header.request as Record<string, unknown>;
-        if (req.path) {
-          const pathArr = req.path;
-          if (Array.isArray(pathArr) && pathArr.length > 0)
-            params.path = String(pathArr[0]);
-        }
-        if (req.headers && typeof req.headers === "object") {
-          const headers = req.headers as Record<string, unknown>;
-          if (headers.Host) {
-            const host = headers.Host;
-            if (Array.isArray(host) && host.length > 0)
-              params.host = String(host[0]);
-            else params.host = String(host);
-          }
-        }
-      }
+    const count = `${subscription.links.length} link${subscription.links.length !== 1 ? "s" : ""}`;
+    return subscription.encoded ? `base64 subscription, ${count}` : count;
+  }, [input, mode, looksLikeServer]);
+
+  const handleConvert = useCallback(() => {
+    setCopied(false);
+    setCopyIdx(null);
+    setOutput([]);
+    setTextOutput(null);
+    setWarnings([]);
+    setReports([]);
+    setSyntaxError(null);
+    if (!input.trim() && files.length === 0) {
+      setErrors([
+        mode === "toConfig"
+          ? "Please paste one or more share links or open a file."
+          : "Please paste your Xray JSON config or open files.",
+      ]);
+      return;
     }
-  }
-
-  if (network === "xhttp" && stream.xhttpSettings) {
-    const xh = stream.xhttpSettings as Record<string, unknown>;
-    if (xh.path) params.path = String(xh.path);
-    if (xh.host) params.host = String(xh.host);
-    if (xh.mode) params.mode = String(xh.mode);
-  }
-
-  if (
-    (network === "h2" || network === "http") &&
-    (stream.httpSettings || stream.h2Settings)
-  ) {
-    const h2 = (stream.httpSettings ||
-      (stream as Record<string, unknown>).h2Settings) as Record<
-      string,
-      unknown
-    >;
-    if (h2) {
-      if (h2.path) params.path = String(h2.path);
-      if (h2.host) {
-        const host = h2.host;
-        if (Array.isArray(host) && host.length > 0)
-          params.host = String(host[0]);
-        else params.host = String(host);
+    // Successful conversions go to the workspace history
+    const record = (output: string, count: number) => {
+      if (count === 0) return;
+      setWorkspace((ws) =>
+        addHistory(ws, {
+          at: Date.now(),
+          mode,
+          input,
+          files: files.map((f) => f.source || ""),
+          output,
+          count,
+        })
+      );
+    };
+    if (mode === "toConfig") {
+      const result = parseLinks(
+        [input, ...files.map((f) => f.text)].join("\n").trim()
+      );
+      if (result.configs.length > 0) {
+        const text = JSON.stringify(result.configs, null, 2);
+        setTextOutput({ text, count: result.configs.length });
+        record(text, result.configs.length);
       }
+      setErrors(result.errors);
+      return;
     }
-  }
-
-  if (network === "quic" && stream.quicSettings) {
-    const quic = stream.quicSettings as Record<string, unknown>;
-    if (quic.security) params.quicSecurity = String(quic.security);
-    if (quic.key) params.key = String(quic.key);
-    if (quic.header && typeof quic.header === "object") {
-      const header = quic.header as Record<string, unknown>;
-      if (header.type) params.headerType = String(header.type);
-    }
-  }
-
-  if (network === "kcp" && stream.kcpSettings) {
-    const kcp = stream.kcpSettings as Record<string, unknown>;
-    if (kcp.seed) params.seed = String(kcp.seed);
-    if (kcp.header && typeof kcp.header === "object") {
-      const header = kcp.header as Record<string, unknown>;
-      if (header.type) params.headerType = String(header.type);
+    if (serverMode && !serverAddress.trim()) {
+      setErrors([
+        "Enter the server's public address: inbounds listen on 0.0.0.0, so the config does not say where clients should connect.",
+      ]);
+      return;
     }
-  }
-
-  return params;
-}
-
-function convertVless(
-  outbound: Outbound,
-  remarks: string
-): string | null {
-  const settings = outbound.settings as Record<string, unknown>;
-  if (!settings || !settings.vnext) return null;
-
-  const vnext = settings.vnext as Array<Record<string, unknown>>;
-  if (!vnext || vnext.length === 0) return null;
-
-  const server = vnext[0];
-  const address = String(server.address);
-  const port = String(server.port);
-  const users = server.users as Array<Record<string, unknown>>;
-  if (!users || users.length === 0) return null;
-
-  const user = users[0];
-  const uuid = String(user.id);
-
-  const params: Record<string, string> = {};
-  if (user.encryption) params.encryption = String(user.encryption);
-  if (user.flow) params.flow = String(user.flow);
-
-  if (outbound.streamSettings) {
-    const streamParams = extractStreamParams(outbound.streamSettings);
-    Object.assign(params, streamParams);
-  }
-
-  const query = buildQueryParams(params);
-  const fragment = encodeURIComponent(remarks);
-
-  return `vless://${uuid}@${address}:${port}?${query}#${fragment}`;
-}
-
-function convertVmess(
-  outbound: Outbound,
-  remarks: string
-): string | null {
-  const settings = outbound.settings as Record<string, unknown>;
-  if (!settings || !settings.vnext) return null;
-
-  const vnext = settings.vnext as Array<Record<string, unknown>>;
-  if (!vnext || vnext.length === 0) return null;
-
-  const server = vnext[0];
-  const users = server.users as Array<Record<string, unknown>>;
-  if (!users || users.length === 0) return null;
-
-  const user = users[0];
-  const stream = outbound.streamSettings || {};
-  const network = stream.network || "tcp";
-  const security = stream.security || "none";
-
-  let path = "";
-  let host = "";
-  let headerType = "none";
-  let sni = "";
-
-  const streamParams = extractStreamParams(stream);
-  path = streamParams.path || "";
-  host = streamParams.host || "";
-  headerType = streamParams.headerType || "none";
-  sni = streamParams.sni || "";
-
-  // VMess uses base64-encoded JSON (v2rayN format)
-  const vmessObj: Record<string, string | number> = {
-    v: "2",
-    ps: remarks,
-    add: String(server.address),
-    port: Number(server.port),
-    id: String(user.id),
-    aid: Number(user.alterId || 0),
-    scy: String(user.security || "auto"),
-    net: String(network),
-    type: headerType,
-    host: host,
-    path: path,
-    tls: security === "tls" ? "tls" : "",
-    sni: sni,
-    alpn: streamParams.alpn || "",
-    fp: streamParams.fp || "",
-  };
-
-  const jsonStr = JSON.stringify(vmessObj);
-  const b64 = btoa(jsonStr);
-  return `vmess://${b64}`;
-}
-
-function convertTrojan(
-  outbound: Outbound,
-  remarks: string
-): string | null {
-  const settings = outbound.settings as Record<string, unknown>;
-  if (!settings || !settings.servers) return null;
-
-  const servers = settings.servers as Array<Record<string, unknown>>;
-  if (!servers || servers.length === 0) return null;
-
-  const server = servers[0];
-  const password = String(server.password);
-  const address = String(server.address);
-  const port = String(server.port);
-
-  const params: Record<string, string> = {};
-
-  if (outbound.streamSettings) {
-    const streamParams = extractStreamParams(outbound.streamSettings);
-    Object.assign(params, streamParams);
-  }
-
-  const query = buildQueryParams(params);
-  const fragment = encodeURIComponent(remarks);
-
-  return `trojan://${password}@${address}:${port}?${query}#${fragment}`;
-}
-
-function convertShadowsocks(
-  outbound: Outbound,
-  remarks: string
-): string | null {
-  const settings = outbound.settings as Record<string, unknown>;
-  if (!settings || !settings.servers) return null;
-
-  const servers = settings.servers as Array<Record<string, unknown>>;
-  if (!servers || servers.length === 0) return null;
-
-  const server = servers[0];
-  const method = String(server.method);
-  const password = String(server.password);
-  const address = String(server.address);
-  const port = String(server.port);
-
-  const userInfo = btoa(`${method}:${password}`);
-  const fragment = encodeURIComponent(remarks);
-
-  return `ss://${userInfo}@${address}:${port}#${fragment}`;
-}
-
-function convertConfig(config: XrayConfig): string | null {
-  const remarks = config.remarks || "Unnamed";
-  const outbounds = config.outbounds || [];
-
-  // Find proxy outbound (not direct, not block)
-  const proxyOutbound = outbounds.find(
-    (ob) =>
-      ob.tag === "proxy" ||
-      (ob.protocol !== "freedom" &&
-        ob.protocol !== "blackhole" &&
-        ob.protocol !== "dns")
-  );
-
-  if (!proxyOutbound) return null;
-
-  switch (proxyOutbound.protocol) {
-    case "vless":
-      return convertVless(proxyOutbound, remarks);
-    case "vmess":
-      return convertVmess(proxyOutbound, remarks);
-    case "trojan":
-      return convertTrojan(proxyOutbound, remarks);
-    case "shadowsocks":
-    case "ss":
-      return convertShadowsocks(proxyOutbound, remarks);
-    default:
-      return null;
-  }
-}
-
-function convertConfigs(input: string): { links: string[]; errors: string[] } {
-  const links: string[] = [];
-  const errors: string[] = [];
-
-  let parsed: unknown;
-  try {
-    parsed = JSON.parse(input);
-  } catch {
-    errors.push("Invalid JSON input. Please check your config.");
-    return { links, errors };
-  }
-
-  const configs: XrayConfig[] = Array.isArray(parsed) ? parsed : [parsed];
-
-  for (let i = 0; i < configs.length; i++) {
-    const config = configs[i];
-    try {
-      const link = convertConfig(config);
-      if (link) {
-        links.push(link);
-      } else {
-        errors.push(
-          `Config #${i + 1} "${config.remarks || "Unnamed"}": Could not convert — unsupported protocol or missing data.`
-        );
+    const options = {
+      dedupe,
+      serverAddress: serverMode ? serverAddress : undefined,
+      remarksTemplate,
+      countries: countryMap.countries,
+      excludeOutbounds: excludedOutbounds,
+    };
+    if (mode === "toClash") {
+      const result = convertToClash(sources, options);
+      if (result.count > 0) {
+        setTextOutput({ text: result.yaml, count: result.count });
       }
-    } catch (e) {
-      errors.push(
-        `Config #${i + 1} "${config.remarks || "Unnamed"}": Error — ${e instanceof Error ? e.message : String(e)}`
-      );
+      record(result.yaml, result.count);
+      setErrors(result.errors);
+      setWarnings(result.warnings);
+      setReports(result.reports);
+      setSyntaxError(result.syntaxError ?? null);
+      return;
     }
-  }
-
-  return { links, errors };
-}
-
-export function App() {
-  const [input, setInput] = useState("");
-  const [output, setOutput] = useState<string[]>([]);
-  const [errors, setErrors] = useState<string[]>([]);
-  const [copied, setCopied] = useState(false);
-  const [copyIdx, setCopyIdx] = useState<number | null>(null);
-
-  const handleConvert = useCallback(() => {
-    if (!input.trim()) {
-      setErrors(["Please paste your Xray JSON config."]);
-      setOutput([]);
+    if (mode === "toSingBox") {
+      const result = convertToSingBox(sources, options);
+      if (result.count > 0) {
+        setTextOutput({ text: result.json, count: result.count });
+      }
+      record(result.json, result.count);
+      setErrors(result.errors);
+      setWarnings(result.warnings);
+      setReports(result.reports);
+      setSyntaxError(result.syntaxError ?? null);
       return;
     }
-    const result = convertConfigs(input.trim());
+    const result = toLinks(sources, options);
     setOutput(result.links);
+    record(result.links.join("\n"), result.links.length);
     setErrors(result.errors);
-    setCopied(false);
-    setCopyIdx(null);
-  }, [input]);
+    setWarnings(result.warnings);
+    setReports(result.reports);
+    setSyntaxError(result.syntaxError ?? null);
+  }, [
+    input,
+    files,
+    sources,
+    mode,
+    dedupe,
+    serverMode,
+    serverAddress,
+    remarksTemplate,
+    countryMap,
+    excludedOutbounds,
+  ]);
+
+  const handleFiles = useCallback(
+    async (picked: File[]) => {
+      const extensions =
+        mode === "toConfig" ? [".txt", ".list"] : [".json", ".jsonc", ".txt"];
+      // Files picked one by one are taken as-is; folders only contribute
+      // the files that look like input for the current mode
+      const accepted = picked.filter(
+        (file) =>
+          !displayName(file).includes("/") ||
+          hasExtension(file.name, extensions)
+      );
+      const loaded = await Promise.all(
+        accepted.map(async (file) => ({
+          source: displayName(file),
+          text: await file.text(),
+        }))
+      );
+      setFiles((prev) => [
+        ...prev.filter((f) => !loaded.some((l) => l.source === f.source)),
+        ...loaded,
+      ]);
+    },
+    [mode]
+  );
 
   const handleCopyAll = useCallback(async () => {
-    const text = output.join("\n");
+    const text = textOutput ? textOutput.text : output.join("\n");
     await navigator.clipboard.writeText(text);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
-  }, [output]);
+  }, [output, textOutput]);
+
+  const handleDownload = useCallback(() => {
+    if (!textOutput || !textKind) return;
+    downloadBlob(
+      new Blob([textOutput.text], { type: textKind.mime }),
+      textKind.file
+    );
+  }, [textOutput, textKind]);
 
   const handleCopyOne = useCallback(async (idx: number, link: string) => {
     await navigator.clipboard.writeText(link);
@@ -398,64 +380,103 @@ export function App() {
     setTimeout(() => setCopyIdx(null), 2000);
   }, []);
 
+  const handleInspect = useCallback((link: string) => {
+    setInspected(link);
+    inspectorRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, []);
+
+  const handleEdit = useCallback((link: string) => {
+    setEdited(link);
+    editorRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, []);
+
   const handleClear = useCallback(() => {
     setInput("");
+    setFiles([]);
     setOutput([]);
+    setTextOutput(null);
     setErrors([]);
+    setWarnings([]);
+    setReports([]);
+    setSyntaxError(null);
     setCopied(false);
     setCopyIdx(null);
   }, []);
 
-  const loadSample = useCallback(() => {
-    const sample = JSON.stringify(
-      [
-        {
-          remarks: "Sample VLESS Config",
-          outbounds: [
-            {
-              protocol: "vless",
-              tag: "proxy",
-              settings: {
-                vnext: [
-                  {
-                    address: "ip",
-                    port: 8443,
-                    users: [
-                      {
-                        id: "uuid",
-                        encryption: "none",
-                      },
-                    ],
-                  },
-                ],
-              },
-              streamSettings: {
-                network: "xhttp",
-                security: "reality",
-                realitySettings: {
-                  serverName: "mail.ru",
-                  publicKey: "pb",
-                  shortId: "si",
-                  fingerprint: "fn",
-                },
-                xhttpSettings: {
-                  path: "ph",
-                  mode: "md",
-                  host: "hs",
-                },
-              },
-            },
-            { protocol: "freedom", tag: "direct" },
-            { protocol: "blackhole", tag: "block" },
-          ],
-        },
-      ],
-      null,
-      2
-    );
-    setInput(sample);
+  const handleModeChange = useCallback(
+    (next: ConvertMode) => {
+      setMode(next);
+      // JSON input stays valid when switching between JSON exporters
+      if ((next === "toConfig") !== (mode === "toConfig")) {
+        setInput("");
+        setFiles([]);
+      }
+      setOutput([]);
+      setTextOutput(null);
+      setErrors([]);
+      setWarnings([]);
+      setReports([]);
+      setSyntaxError(null);
+      setCopied(false);
+      setCopyIdx(null);
+    },
+    [mode]
+  );
+
+  const handleProfileSwitch = useCallback(
+    (name: string) => {
+      const profile = workspace.profiles.find((p) => p.name === name);
+      if (!profile) return;
+      setWorkspace((ws) => ({ ...ws, activeProfile: name }));
+      if (isMode(profile.mode) && profile.mode !== mode) {
+        handleModeChange(profile.mode);
+      }
+      setRemarksTemplate(profile.remarksTemplate);
+      setCountryText(profile.countries);
+      setDedupe(profile.dedupe);
+    },
+    [workspace.profiles, mode, handleModeChange]
+  );
+
+  // Puts saved text back in the input box; results are left to Convert
+  const handleLoadInput = useCallback((saved: SavedInput) => {
+    if (isMode(saved.mode)) setMode(saved.mode);
+    setInput(saved.text);
+    setFiles([]);
+    setOutput([]);
+    setTextOutput(null);
+    setErrors([]);
+    setWarnings([]);
+    setReports([]);
+    setSyntaxError(null);
+  }, []);
+
+  const handleRestore = useCallback((entry: HistoryEntry) => {
+    if (!isMode(entry.mode)) return;
+    setMode(entry.mode);
+    setInput(entry.input);
+    setFiles([]);
+    setErrors([]);
+    setWarnings([]);
+    setReports([]);
+    setSyntaxError(null);
+    if (entry.mode === "toLinks") {
+      setOutput(entry.output.split("\n").filter(Boolean));
+      setTextOutput(null);
+    } else {
+      setOutput([]);
+      setTextOutput({ text: entry.output, count: entry.count });
+    }
   }, []);
 
+  const loadSample = useCallback(() => {
+    if (mode === "toConfig") {
+      setInput(SAMPLE_LINK);
+      return;
+    }
+    setInput(JSON.stringify(SAMPLE_CONFIGS, null, 2));
+  }, [mode]);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-gray-950 text-gray-100">
       {/* Header */}
@@ -483,7 +504,7 @@ export function App() {
               </h1>
               <p className="text-sm text-gray-400">
                 Convert Xray JSON configs to share links (VLESS, VMess, Trojan,
-                SS)
+                SS) or client configs, and back
               </p>
             </div>
           </div>
@@ -491,14 +512,48 @@ export function App() {
       </header>
 
       <main className="mx-auto max-w-6xl px-4 py-8">
+        {/* Mode Switch */}
+        <div className="mb-6 flex justify-center">
+          <div className="inline-flex rounded-xl border border-gray-800 bg-gray-900/60 p-1">
+            {MODES.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => handleModeChange(value)}
+                className={`rounded-lg px-4 py-1.5 text-xs font-semibold transition ${
+                  mode === value
+                    ? "bg-blue-600 text-white shadow-sm"
+                    : "text-gray-400 hover:text-white"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
         <div className="grid gap-6 lg:grid-cols-2">
           {/* Input Panel */}
-          <div className="flex flex-col">
+          <FileDropZone onFiles={handleFiles}>
             <div className="mb-3 flex items-center justify-between">
               <label className="text-sm font-semibold text-gray-300">
-                📋 JSON Config Input
+                {mode === "toConfig"
+                  ? "🔗 Share Links Input"
+                  : "📋 Config or Subscription Input"}
+                {inputKind && (
+                  <span className="ml-2 inline-flex items-center rounded-full bg-gray-800 px-2 py-0.5 text-xs font-normal text-gray-400">
+                    {inputKind}
+                  </span>
+                )}
               </label>
-              <div className="flex gap-2">
+              <div className="flex flex-wrap justify-end gap-2">
+                <FileImportButtons
+                  accept={
+                    mode === "toConfig"
+                      ? ".txt,.list,text/plain"
+                      : ".json,.jsonc,.txt,application/json,text/plain"
+                  }
+                  onFiles={handleFiles}
+                />
                 <button
                   onClick={loadSample}
                   className="rounded-lg bg-gray-800 px-3 py-1.5 text-xs font-medium text-gray-300 transition hover:bg-gray-700 hover:text-white"
@@ -513,56 +568,87 @@ export function App() {
                 </button>
               </div>
             </div>
-            <textarea
+            <LoadedFiles
+              files={files}
+              onRemove={(source) =>
+                setFiles((prev) => prev.filter((f) => f.source !== source))
+              }
+              onClear={() => setFiles([])}
+            />
+            <CodeInput
               value={input}
-              onChange={(e) => setInput(e.target.value)}
-              placeholder={`Paste your Xray JSON config here...\n\nAccepts a single config object {} or an array of configs [{}].\n\nSupported protocols:\n• VLESS\n• VMess\n• Trojan\n• Shadowsocks`}
-              className="h-[500px] w-full flex-1 resize-none rounded-xl border border-gray-700 bg-gray-900/80 p-4 font-mono text-sm text-gray-200 placeholder-gray-600 outline-none transition focus:border-blue-500 focus:ring-1 focus:ring-blue-500/30"
-              spellCheck={false}
+              onChange={(value) => {
+                setInput(value);
+                setSyntaxError(null);
+              }}
+              errorAt={syntaxError}
+              placeholder={
+                mode === "toConfig"
+                  ? `Paste share links here, one per line, or a base64 subscription, or drop .txt files...\n\nSupported schemes:\n• vless://\n• vmess://\n• trojan://\n• ss://\n• hysteria2:// (hy2://)\n• tuic://\n• wireguard://\n• socks://, http://, https://`
+                  : `Paste your Xray JSON config here, or drop files and folders...\n\nAccepts a single config object {} or an array of configs [{}]. Comments and trailing commas are fine.\n\nShare link lists and base64 subscriptions are detected too.\n\nSupported protocols:\n• VLESS\n• VMess\n• Trojan\n• Shadowsocks\n• Hysteria2, TUIC\n• WireGuard, SOCKS, HTTP`
+              }
             />
-          </div>
+          </FileDropZone>
 
           {/* Output Panel */}
           <div className="flex flex-col">
             <div className="mb-3 flex items-center justify-between">
               <label className="text-sm font-semibold text-gray-300">
-                🔗 Share Links Output
+                {modeInfo.output}
                 {output.length > 0 && (
                   <span className="ml-2 inline-flex items-center rounded-full bg-blue-500/20 px-2 py-0.5 text-xs text-blue-400">
                     {output.length} link{output.length !== 1 ? "s" : ""}
                   </span>
                 )}
+                {textOutput && textKind && (
+                  <span className="ml-2 inline-flex items-center rounded-full bg-blue-500/20 px-2 py-0.5 text-xs text-blue-400">
+                    {textOutput.count}{" "}
+                    {textOutput.count === 1 ? textKind.unit : textKind.units}
+                  </span>
+                )}
               </label>
-              {output.length > 0 && (
-                <button
-                  onClick={handleCopyAll}
-                  className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white transition hover:bg-blue-500"
-                >
-                  {copied ? "✓ Copied All!" : "Copy All"}
-                </button>
-              )}
-            </div>
-            <div className="flex h-[500px] flex-1 flex-col gap-3 overflow-y-auto rounded-xl border border-gray-700 bg-gray-900/80 p-4">
-              {output.length === 0 && errors.length === 0 && (
-                <div className="flex flex-1 flex-col items-center justify-center text-gray-500">
-                  <svg
-                    className="mb-3 h-12 w-12 text-gray-700"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                    stroke="currentColor"
-                    strokeWidth={1}
+              {(output.length > 0 || textOutput) && (
+                <div className="flex gap-2">
+                  {textOutput && textKind && (
+                    <button
+                      onClick={handleDownload}
+                      className="rounded-lg bg-gray-800 px-3 py-1.5 text-xs font-medium text-gray-300 transition hover:bg-gray-700 hover:text-white"
+                    >
+                      Download
+                    </button>
+                  )}
+                  <button
+                    onClick={handleCopyAll}
+                    className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white transition hover:bg-blue-500"
                   >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"
-                    />
-                  </svg>
-                  <p className="text-sm">
-                    Converted share links will appear here
-                  </p>
+                    {copied ? "✓ Copied All!" : "Copy All"}
+                  </button>
                 </div>
               )}
+            </div>
+            <div className="flex h-[500px] flex-1 flex-col gap-3 overflow-y-auto rounded-xl border border-gray-700 bg-gray-900/80 p-4">
+              {output.length === 0 &&
+                !textOutput &&
+                errors.length === 0 &&
+                warnings.length === 0 &&
+                reports.length === 0 && (
+                  <div className="flex flex-1 flex-col items-center justify-center text-gray-500">
+                    <svg
+                      className="mb-3 h-12 w-12 text-gray-700"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                      strokeWidth={1}
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"
+                      />
+                    </svg>
+                    <p className="text-sm">{modeInfo.empty}</p>
+                  </div>
+                )}
 
               {errors.map((err, i) => (
                 <div
@@ -574,19 +660,41 @@ export function App() {
                 </div>
               ))}
 
+              {warnings.map((warning, i) => (
+                <div
+                  key={`warn-${i}`}
+                  className="rounded-lg border border-amber-900/50 bg-amber-950/40 px-4 py-3 text-sm text-amber-200"
+                >
+                  <span className="mr-1 font-semibold text-amber-400">!</span>
+                  {warning}
+                </div>
+              ))}
+
+              <DiagnosticsPanel reports={reports} />
+
+              {textOutput && (
+                <pre className="overflow-auto rounded-lg border border-gray-700/60 bg-gray-800/50 p-3 font-mono text-xs text-gray-300">
+                  {textOutput.text}
+                </pre>
+              )}
+
               {output.map((link, i) => {
                 const protocol = link.split("://")[0].toUpperCase();
                 const remark = decodeURIComponent(
                   link.includes("#") ? link.split("#").pop() || "" : ""
                 );
                 const protocolColors: Record<string, string> = {
-                  VLESS:
-                    "from-blue-500 to-cyan-500 shadow-blue-500/20",
-                  VMESS:
-                    "from-purple-500 to-pink-500 shadow-purple-500/20",
-                  TROJAN:
-                    "from-orange-500 to-red-500 shadow-orange-500/20",
+                  VLESS: "from-blue-500 to-cyan-500 shadow-blue-500/20",
+                  VMESS: "from-purple-500 to-pink-500 shadow-purple-500/20",
+                  TROJAN: "from-orange-500 to-red-500 shadow-orange-500/20",
                   SS: "from-green-500 to-emerald-500 shadow-green-500/20",
+                  HYSTERIA2:
+                    "from-yellow-500 to-orange-500 shadow-yellow-500/20",
+                  TUIC: "from-teal-500 to-cyan-500 shadow-teal-500/20",
+                  WIREGUARD: "from-rose-500 to-red-600 shadow-rose-500/20",
+                  SOCKS: "from-slate-500 to-gray-500 shadow-slate-500/20",
+                  HTTP: "from-slate-500 to-gray-500 shadow-slate-500/20",
+                  HTTPS: "from-slate-500 to-gray-500 shadow-slate-500/20",
                 };
                 const colorClass =
                   protocolColors[protocol] ||
@@ -608,16 +716,38 @@ export function App() {
                           {remark || `Config #${i + 1}`}
                         </span>
                       </div>
-                      <button
-                        onClick={() => handleCopyOne(i, link)}
-                        className="rounded-md bg-gray-700 px-2.5 py-1 text-xs font-medium text-gray-300 opacity-60 transition hover:bg-gray-600 hover:text-white group-hover:opacity-100"
-                      >
-                        {copyIdx === i ? "✓ Copied" : "Copy"}
-                      </button>
+                      <div className="flex gap-1.5">
+                        {isEditable(protocol.toLowerCase()) && (
+                          <button
+                            onClick={() => handleEdit(link)}
+                            className="rounded-md bg-gray-700 px-2.5 py-1 text-xs font-medium text-gray-300 opacity-60 transition hover:bg-gray-600 hover:text-white group-hover:opacity-100"
+                          >
+                            Edit
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleInspect(link)}
+                          className="rounded-md bg-gray-700 px-2.5 py-1 text-xs font-medium text-gray-300 opacity-60 transition hover:bg-gray-600 hover:text-white group-hover:opacity-100"
+                        >
+                          Inspect
+                        </button>
+                        <button
+                          onClick={() => handleCopyOne(i, link)}
+                          className="rounded-md bg-gray-700 px-2.5 py-1 text-xs font-medium text-gray-300 opacity-60 transition hover:bg-gray-600 hover:text-white group-hover:opacity-100"
+                        >
+                          {copyIdx === i ? "✓ Copied" : "Copy"}
+                        </button>
+                      </div>
+                    </div>
+                    <div className="flex gap-3">
+                      <QrThumbnail
+                        text={link}
+                        title={remark || `Config #${i + 1}`}
+                      />
+                      <code className="block max-h-20 flex-1 overflow-auto break-all rounded-md bg-gray-900/70 p-2 font-mono text-xs text-gray-400">
+                        {link}
+                      </code>
                     </div>
-                    <code className="block max-h-20 overflow-auto break-all rounded-md bg-gray-900/70 p-2 font-mono text-xs text-gray-400">
-                      {link}
-                    </code>
                   </div>
                 );
               })}
@@ -626,7 +756,7 @@ export function App() {
         </div>
 
         {/* Convert Button */}
-        <div className="mt-6 flex justify-center">
+        <div className="mt-6 flex flex-col items-center gap-3">
           <button
             onClick={handleConvert}
             className="group relative overflow-hidden rounded-xl bg-gradient-to-r from-blue-600 to-cyan-600 px-10 py-3.5 text-sm font-bold tracking-wide text-white shadow-lg shadow-blue-600/25 transition-all hover:shadow-xl hover:shadow-blue-600/30 active:scale-[0.98]"
@@ -645,23 +775,86 @@ export function App() {
                   d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
                 />
               </svg>
-              Convert to Share Links
+              {modeInfo.action}
             </span>
           </button>
+          {mode !== "toConfig" && (
+            <label className="flex cursor-pointer items-center gap-2 text-xs text-gray-400 select-none">
+              <input
+                type="checkbox"
+                checked={dedupe}
+                onChange={(e) => setDedupe(e.target.checked)}
+                className="accent-blue-600"
+              />
+              Drop duplicate endpoints
+            </label>
+          )}
+          {mode !== "toConfig" && (
+            <ServerModeOptions
+              enabled={serverMode}
+              address={serverAddress}
+              detected={looksLikeServer}
+              onEnabledChange={setServerMode}
+              onAddressChange={setServerAddress}
+            />
+          )}
+          {mode !== "toConfig" && (
+            <RoutingOptions
+              configs={routedConfigs}
+              excluded={excludedOutbounds}
+              onExcludedChange={setExcludedOutbounds}
+            />
+          )}
+          {mode !== "toConfig" && (
+            <RemarksTemplateOptions
+              template={remarksTemplate}
+              countries={countryText}
+              countryErrors={countryMap.errors}
+              onTemplateChange={setRemarksTemplate}
+              onCountriesChange={setCountryText}
+            />
+          )}
+        </div>
+
+        <div className="mt-3 flex flex-col items-center">
+          <WorkspacePanel
+            workspace={workspace}
+            current={{ mode, text: input }}
+            modeLabels={MODE_LABELS}
+            storageNote={storageNote}
+            onWorkspaceChange={setWorkspace}
+            onProfileSwitch={handleProfileSwitch}
+            onLoadInput={handleLoadInput}
+            onRestore={handleRestore}
+          />
         </div>
 
+        {mode === "toLinks" && output.length > 0 && (
+          <SubscriptionPanel links={output} />
+        )}
+
+        <LinkInspector
+          ref={inspectorRef}
+          link={inspected}
+          onLinkChange={setInspected}
+        />
+
+        <LinkEditor ref={editorRef} text={edited} onTextChange={setEdited} />
+
+        <ComparePanel />
+
         {/* Info Section */}
         <div className="mt-10 grid gap-4 sm:grid-cols-3">
           {[
             {
               icon: "🔄",
               title: "Multi-Protocol",
-              desc: "Supports VLESS, VMess, Trojan, and Shadowsocks protocols.",
+              desc: "Supports VLESS, VMess, Trojan, Shadowsocks, Hysteria2, TUIC, WireGuard, SOCKS and HTTP.",
             },
             {
               icon: "📦",
               title: "Batch Convert",
-              desc: "Pass an array of configs to convert multiple at once.",
+              desc: "Pass an array of configs — every proxy outbound, server and user becomes its own link.",
             },
             {
               icon: "🔒",
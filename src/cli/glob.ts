@@ -0,0 +1,100 @@
+import { readdirSync, statSync, type Dirent } from "node:fs";
+import path from "node:path";
+
+// Node 20 has no fs.glob, and CI shells do not always expand a quoted
+// pattern, so the CLI matches *, ?, [...] and ** itself
+
+const MAGIC_RE = /[*?[]/;
+
+export function isGlob(pattern: string): boolean {
+  return MAGIC_RE.test(pattern);
+}
+
+function segmentRegExp(segment: string): RegExp {
+  let re = "";
+  for (let i = 0; i < segment.length; i++) {
+    const ch = segment[i];
+    if (ch === "*") {
+      re += "[^/]*";
+    } else if (ch === "?") {
+      re += "[^/]";
+    } else if (ch === "[" && segment.indexOf("]", i + 2) > i) {
+      const end = segment.indexOf("]", i + 2);
+      const body = segment.slice(i + 1, end).replace(/\\/g, "\\\\");
+      re += body.startsWith("!") ? `[^${body.slice(1)}]` : `[${body}]`;
+      i = end;
+    } else {
+      re += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+function readDir(dir: string): Dirent[] {
+  try {
+    return readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+}
+
+function isFile(file: string): boolean {
+  try {
+    return statSync(file).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function walk(
+  dir: string,
+  shown: string,
+  segments: string[],
+  out: Set<string>
+) {
+  const join = (name: string) =>
+    !shown ? name : shown.endsWith("/") ? shown + name : `${shown}/${name}`;
+  if (segments.length === 0) {
+    if (isFile(dir)) out.add(shown);
+    return;
+  }
+
+  const [head, ...rest] = segments;
+  if (head === "**") {
+    // A trailing ** means every file below
+    const next = rest.length > 0 ? rest : ["*"];
+    walk(dir, shown, next, out);
+    for (const entry of readDir(dir)) {
+      if (entry.isDirectory() && !entry.name.startsWith(".")) {
+        walk(path.join(dir, entry.name), join(entry.name), segments, out);
+      }
+    }
+    return;
+  }
+  if (!isGlob(head)) {
+    walk(path.join(dir, head), join(head), rest, out);
+    return;
+  }
+
+  const re = segmentRegExp(head);
+  for (const entry of readDir(dir)) {
+    // Like shells, * does not match dotfiles unless the pattern asks
+    if (entry.name.startsWith(".") && !head.startsWith(".")) continue;
+    if (re.test(entry.name)) {
+      walk(path.join(dir, entry.name), join(entry.name), rest, out);
+    }
+  }
+}
+
+// Files matching the pattern, sorted, relative to cwd unless the pattern is
+// absolute
+export function expandGlob(pattern: string, cwd = process.cwd()): string[] {
+  const segments = pattern.split("/").filter((s, i) => s || i === 0);
+  const out = new Set<string>();
+  if (segments[0] === "") {
+    walk("/", "/", segments.slice(1), out);
+  } else {
+    walk(cwd, "", segments, out);
+  }
+  return [...out].sort();
+}
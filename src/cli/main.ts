@@ -0,0 +1,14 @@
+import { runCli } from "./run";
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+process.exitCode = await runCli(process.argv.slice(2), {
+  readStdin,
+  stdinIsTTY: !!process.stdin.isTTY,
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+});
@@ -0,0 +1,131 @@
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { beforeAll, describe, expect, it } from "vitest";
+import { expandGlob } from "./glob";
+import { runCli, type CliReport } from "./run";
+
+const GOOD = JSON.stringify({
+  remarks: "Alice",
+  outbounds: [
+    {
+      protocol: "trojan",
+      settings: {
+        servers: [{ address: "a.example", port: 443, password: "pw" }],
+      },
+      streamSettings: {
+        security: "tls",
+        tlsSettings: { serverName: "a.example" },
+      },
+    },
+  ],
+});
+const BAD = JSON.stringify({
+  outbounds: [
+    {
+      protocol: "trojan",
+      settings: {
+        servers: [{ address: "b.example", port: 0, password: "pw" }],
+      },
+    },
+  ],
+});
+
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "xray-links-"));
+  mkdirSync(path.join(dir, "nested"));
+  writeFileSync(path.join(dir, "good.json"), GOOD);
+  writeFileSync(path.join(dir, "nested", "bad.json"), BAD);
+  writeFileSync(path.join(dir, "notes.txt"), "");
+});
+
+async function run(argv: string[], stdin = "") {
+  let stdout = "";
+  let stderr = "";
+  const code = await runCli(argv, {
+    readStdin: async () => stdin,
+    stdinIsTTY: false,
+    stdout: (text) => (stdout += text),
+    stderr: (text) => (stderr += text),
+  });
+  return { code, stdout, stderr };
+}
+
+describe("expandGlob", () => {
+  it("matches within a folder and below it", () => {
+    expect(expandGlob("*.json", dir)).toEqual(["good.json"]);
+    expect(expandGlob("**/*.json", dir)).toEqual([
+      "good.json",
+      "nested/bad.json",
+    ]);
+  });
+});
+
+describe("runCli", () => {
+  it("prints links from stdin", async () => {
+    const { code, stdout, stderr } = await run([], GOOD);
+    expect(code).toBe(0);
+    expect(stderr).toBe("");
+    expect(stdout).toBe(
+      "trojan://pw@a.example:443?type=tcp&security=tls&sni=a.example#Alice\n"
+    );
+  });
+
+  it("applies the remarks template", async () => {
+    const { stdout } = await run(["-t", "{remarks} {protocol}:{port}"], GOOD);
+    expect(stdout).toContain("#Alice%20trojan%3A443\n");
+  });
+
+  it("exits with 1 and JSON errors when an input fails", async () => {
+    const { code, stdout, stderr } = await run([
+      "--json",
+      path.join(dir, "**/*.json"),
+    ]);
+    expect(code).toBe(1);
+    // What converted is still written
+    expect(stdout).toContain("#Alice");
+    const report: CliReport = JSON.parse(stderr);
+    expect(report.ok).toBe(false);
+    expect(report.count).toBe(1);
+    expect(report.errors).toHaveLength(1);
+    expect(report.errors[0]).toContain("nested/bad.json");
+  });
+
+  it("writes nothing in strict mode", async () => {
+    const output = path.join(dir, "out.txt");
+    const { code } = await run([
+      "--strict",
+      "-o",
+      output,
+      path.join(dir, "**/*.json"),
+    ]);
+    expect(code).toBe(1);
+    expect(() => readFileSync(output)).toThrow();
+  });
+
+  it("writes a base64 subscription to a file", async () => {
+    const output = path.join(dir, "sub.txt");
+    const input = path.join(dir, "good.json");
+    const { code } = await run(["-f", "base64", "-o", output, input]);
+    expect(code).toBe(0);
+    expect(atob(readFileSync(output, "utf8"))).toContain("trojan://");
+  });
+
+  it("exits with 2 when the output file cannot be written", async () => {
+    const output = path.join(dir, "missing", "out.txt");
+    const input = path.join(dir, "good.json");
+    const { code, stderr } = await run(["-o", output, input]);
+    expect(code).toBe(2);
+    expect(stderr).toContain(`xray-links: cannot write ${output}: ENOENT`);
+  });
+
+  it("exits with 2 on bad arguments", async () => {
+    expect((await run(["--format", "yaml"], GOOD)).code).toBe(2);
+    expect((await run([path.join(dir, "*.yaml")])).code).toBe(2);
+    const { code, stderr } = await run(["--json", "--bogus"]);
+    expect(code).toBe(2);
+    expect(JSON.parse(stderr).errors[0]).toContain("--bogus");
+  });
+});
@@ -0,0 +1,230 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import {
+  buildSubscription,
+  convertToClash,
+  convertToSingBox,
+  parseCountryMap,
+  toLinks,
+  type ConfigInput,
+  type ConfigReport,
+  type ConvertOptions,
+  type CountryMap,
+} from "../converter";
+import { expandGlob, isGlob } from "./glob";
+
+export const USAGE = `Usage: xray-links [options] [file | glob | -]...
+
+Converts Xray JSON configs, link lists or subscriptions into share links or
+client configs. Reads stdin when no file is given or for "-".
+
+Options:
+  -f, --format <format>      links (default), base64, clash or singbox
+  -o, --output <file>        write to a file instead of stdout
+  -t, --remarks-template <template>
+                             name every proxy, e.g. "{flag} {remarks} · {network}"
+                             with {remarks} {protocol} {network} {security}
+                             {address} {port} {tag} {index} {email} {country}
+                             {flag}
+  -c, --countries <file>     address → country code map for {country} and
+                             {flag}: a JSON object or "address CC" lines
+  -s, --server <address>     read server inbounds instead of outbounds and
+                             point one link per client at this public address
+      --dedupe               drop proxies whose endpoint repeats an earlier one
+      --strict               treat warnings as errors and write nothing when
+                             anything failed
+      --json                 report errors on stderr as one JSON object
+  -h, --help                 show this help
+
+Exit codes:
+  0  everything converted
+  1  some input failed to convert (or, with --strict, raised a warning)
+  2  bad arguments, unreadable input or an unwritable output file
+`;
+
+export const EXIT_OK = 0;
+export const EXIT_CONVERSION = 1;
+export const EXIT_USAGE = 2;
+
+const FORMATS = ["links", "base64", "clash", "singbox"] as const;
+type Format = (typeof FORMATS)[number];
+
+export interface CliIo {
+  readStdin: () => Promise<string>;
+  stdinIsTTY: boolean;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+// What --json prints: the same errors and warnings the web page lists
+export interface CliReport {
+  ok: boolean;
+  count: number;
+  errors: string[];
+  warnings: string[];
+  reports: ConfigReport[];
+}
+
+class UsageError extends Error {}
+
+function isFormat(value: string): value is Format {
+  return (FORMATS as readonly string[]).includes(value);
+}
+
+function convert(
+  format: Format,
+  inputs: ConfigInput[],
+  options: ConvertOptions
+): { output: string; count: number } & Omit<CliReport, "ok" | "count"> {
+  if (format === "clash") {
+    const { yaml, ...rest } = convertToClash(inputs, options);
+    return { output: yaml, ...rest };
+  }
+  if (format === "singbox") {
+    const { json, ...rest } = convertToSingBox(inputs, options);
+    return { output: json && `${json}\n`, ...rest };
+  }
+  const { links, errors, warnings, reports } = toLinks(inputs, options);
+  const output =
+    links.length === 0
+      ? ""
+      : format === "base64"
+        ? buildSubscription(links, "base64")
+        : `${links.join("\n")}\n`;
+  return { output, count: links.length, errors, warnings, reports };
+}
+
+async function readInputs(paths: string[], io: CliIo): Promise<ConfigInput[]> {
+  if (paths.length === 0) {
+    if (io.stdinIsTTY) throw new UsageError("no input given");
+    paths = ["-"];
+  }
+  const inputs: ConfigInput[] = [];
+  for (const arg of paths) {
+    if (arg === "-") {
+      inputs.push({ text: await io.readStdin() });
+      continue;
+    }
+    const files = isGlob(arg) ? expandGlob(arg) : [arg];
+    if (files.length === 0) throw new UsageError(`no files match ${arg}`);
+    for (const file of files) {
+      try {
+        inputs.push({ text: readFileSync(file, "utf8"), source: file });
+      } catch (e) {
+        const code = (e as NodeJS.ErrnoException).code;
+        throw new UsageError(`cannot read ${file}: ${code || String(e)}`);
+      }
+    }
+  }
+  return inputs;
+}
+
+function readCountries(file: string): CountryMap {
+  let text: string;
+  try {
+    text = readFileSync(file, "utf8");
+  } catch (e) {
+    const code = (e as NodeJS.ErrnoException).code;
+    throw new UsageError(`cannot read ${file}: ${code || String(e)}`);
+  }
+  const { countries, errors } = parseCountryMap(text);
+  if (errors.length > 0) throw new UsageError(`${file}: ${errors[0]}`);
+  return countries;
+}
+
+function writeOutput(file: string, output: string) {
+  try {
+    writeFileSync(file, output);
+  } catch (e) {
+    const code = (e as NodeJS.ErrnoException).code;
+    throw new UsageError(`cannot write ${file}: ${code || String(e)}`);
+  }
+}
+
+function printReport(report: CliReport, json: boolean, io: CliIo) {
+  if (json) {
+    io.stderr(`${JSON.stringify(report)}\n`);
+    return;
+  }
+  for (const { label, diagnostics } of report.reports) {
+    for (const d of diagnostics) {
+      io.stderr(`${d.severity}: ${label}: ${d.path}: ${d.message}\n`);
+    }
+  }
+  for (const error of report.errors) io.stderr(`error: ${error}\n`);
+  for (const warning of report.warnings) io.stderr(`warning: ${warning}\n`);
+}
+
+// Runs the CLI and returns its exit code
+export async function runCli(argv: string[], io: CliIo): Promise<number> {
+  let json = argv.includes("--json");
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        format: { type: "string", short: "f", default: "links" },
+        output: { type: "string", short: "o" },
+        "remarks-template": { type: "string", short: "t" },
+        server: { type: "string", short: "s" },
+        countries: { type: "string", short: "c" },
+        dedupe: { type: "boolean" },
+        strict: { type: "boolean" },
+        json: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+    json = !!values.json;
+    if (values.help) {
+      io.stdout(USAGE);
+      return EXIT_OK;
+    }
+    if (!isFormat(values.format)) {
+      throw new UsageError(
+        `unknown format "${values.format}", expected ${FORMATS.join(", ")}`
+      );
+    }
+
+    const countries = values.countries
+      ? readCountries(values.countries)
+      : undefined;
+    const inputs = await readInputs(positionals, io);
+    const { output, ...result } = convert(values.format, inputs, {
+      dedupe: values.dedupe,
+      remarksTemplate: values["remarks-template"],
+      serverAddress: values.server,
+      countries,
+    });
+
+    const warned =
+      result.warnings.length > 0 ||
+      result.reports.some((r) => r.diagnostics.length > 0);
+    const ok =
+      result.count > 0 &&
+      result.errors.length === 0 &&
+      !(values.strict && warned);
+    printReport({ ok, ...result }, json, io);
+
+    if (output && (ok || !values.strict)) {
+      if (values.output) writeOutput(values.output, output);
+      else io.stdout(output);
+    }
+    return ok ? EXIT_OK : EXIT_CONVERSION;
+  } catch (e) {
+    // parseArgs throws TypeErrors for unknown or incomplete options
+    if (!(e instanceof UsageError || e instanceof TypeError)) throw e;
+    if (json) {
+      const report: CliReport = {
+        ok: false,
+        count: 0,
+        errors: [e.message],
+        warnings: [],
+        reports: [],
+      };
+      io.stderr(`${JSON.stringify(report)}\n`);
+    } else {
+      io.stderr(`xray-links: ${e.message}\n\n${USAGE}`);
+    }
+    return EXIT_USAGE;
+  }
+}
@@ -0,0 +1,83 @@
+import { useEffect, useRef } from "react";
+import type { JsonLocation } from "../converter/jsonc";
+import { cn } from "../utils/cn";
+
+// Padding, font and wrapping shared by the textarea and the backdrop behind
+// it, so the highlighted line sits exactly under the text
+const textClass =
+  "p-4 font-mono text-sm whitespace-pre-wrap break-words [overflow-wrap:anywhere]";
+
+export function CodeInput({
+  value,
+  onChange,
+  placeholder,
+  errorAt,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+  errorAt?: JsonLocation | null;
+}) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const lines = value.split("\n");
+
+  const syncScroll = () => {
+    if (backdropRef.current && textareaRef.current) {
+      backdropRef.current.scrollTop = textareaRef.current.scrollTop;
+    }
+  };
+
+  // Select the offending line so the browser scrolls it into view
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!errorAt || !textarea) return;
+    const text = textarea.value;
+    let start = 0;
+    for (let i = 1; i < errorAt.line; i++) {
+      const nl = text.indexOf("\n", start);
+      if (nl === -1) break;
+      start = nl + 1;
+    }
+    const end = text.indexOf("\n", start);
+    textarea.focus();
+    textarea.setSelectionRange(start, end === -1 ? text.length : end);
+    requestAnimationFrame(syncScroll);
+  }, [errorAt]);
+
+  return (
+    <div className="relative h-[500px] w-full flex-1 overflow-hidden rounded-xl border border-gray-700 bg-gray-900/80 transition focus-within:border-blue-500 focus-within:ring-1 focus-within:ring-blue-500/30">
+      {errorAt && (
+        <div
+          ref={backdropRef}
+          aria-hidden
+          className={cn(
+            "pointer-events-none absolute inset-0 overflow-hidden text-transparent",
+            textClass
+          )}
+        >
+          {lines.map((line, i) => (
+            <div
+              key={i}
+              className={cn(i + 1 === errorAt.line && "rounded bg-red-500/25")}
+            >
+              {line || " "}
+            </div>
+          ))}
+        </div>
+      )}
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={syncScroll}
+        placeholder={placeholder}
+        className={cn(
+          "relative h-full w-full resize-none bg-transparent text-gray-200 placeholder-gray-600 outline-none",
+          textClass
+        )}
+        spellCheck={false}
+      />
+    </div>
+  );
+}
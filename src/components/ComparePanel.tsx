@@ -0,0 +1,165 @@
+import { useMemo, useState } from "react";
+import {
+  compareInputs,
+  dedupeInput,
+  type CompareEntry,
+} from "../converter/compare";
+
+const inputClass =
+  "w-full resize-y rounded-md border border-gray-700 bg-gray-900/80 px-2 py-1 font-mono text-xs text-gray-200 placeholder-gray-600 outline-none transition focus:border-blue-500";
+const linkButtonClass = "text-gray-500 transition hover:text-white";
+
+type Side = "before" | "after";
+
+function EntryList({
+  title,
+  entries,
+  className,
+}: {
+  title: string;
+  entries: CompareEntry[];
+  className: string;
+}) {
+  if (entries.length === 0) return null;
+  return (
+    <div>
+      <h3 className={`mb-1 font-medium ${className}`}>
+        {title} ({entries.length})
+      </h3>
+      <ul className="space-y-0.5">
+        {entries.map((entry, i) => (
+          <li key={i} className="flex gap-2">
+            <span className="truncate text-gray-200">{entry.name}</span>
+            <span className="shrink-0 text-gray-500">
+              {entry.fields.protocol} {entry.fields.address}
+              {entry.fields.port && `:${entry.fields.port}`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Compares two inputs (configs, links or subscriptions), e.g. last week's
+// subscription and this week's, endpoint by endpoint
+export function ComparePanel() {
+  const [texts, setTexts] = useState<Record<Side, string>>({
+    before: "",
+    after: "",
+  });
+  const [notes, setNotes] = useState<Record<Side, string>>({
+    before: "",
+    after: "",
+  });
+
+  const result = useMemo(
+    () =>
+      texts.before.trim() && texts.after.trim()
+        ? compareInputs(texts.before, texts.after)
+        : null,
+    [texts]
+  );
+
+  const setText = (side: Side, text: string) => {
+    setTexts((current) => ({ ...current, [side]: text }));
+    setNotes((current) => ({ ...current, [side]: "" }));
+  };
+
+  const handleDedupe = (side: Side) => {
+    try {
+      const { text, removed } = dedupeInput(texts[side]);
+      setTexts((current) => ({ ...current, [side]: text }));
+      setNotes((current) => ({
+        ...current,
+        [side]: `Removed ${removed.map((name) => `"${name}"`).join(", ")}`,
+      }));
+    } catch (e) {
+      setNotes((current) => ({
+        ...current,
+        [side]: e instanceof Error ? e.message : String(e),
+      }));
+    }
+  };
+
+  return (
+    <div className="mt-6 rounded-xl border border-gray-800 bg-gray-900/50 p-4">
+      <h2 className="mb-3 text-sm font-semibold text-gray-300">🔀 Compare</h2>
+      <div className="grid gap-3 sm:grid-cols-2">
+        {(["before", "after"] as const).map((side) => (
+          <label key={side} className="flex flex-col gap-1 text-xs">
+            <span className="flex items-center justify-between text-gray-500">
+              {side === "before" ? "Before" : "After"}
+              {result && result.duplicates[side] > 0 && (
+                <button
+                  onClick={() => handleDedupe(side)}
+                  className={linkButtonClass}
+                >
+                  Remove {result.duplicates[side]} duplicate
+                  {result.duplicates[side] !== 1 ? "s" : ""}
+                </button>
+              )}
+            </span>
+            <textarea
+              value={texts[side]}
+              onChange={(e) => setText(side, e.target.value)}
+              placeholder={
+                side === "before"
+                  ? "Last week's configs, links or subscription"
+                  : "This week's configs, links or subscription"
+              }
+              spellCheck={false}
+              rows={4}
+              className={inputClass}
+            />
+            {notes[side] && (
+              <span className="text-gray-500">{notes[side]}</span>
+            )}
+          </label>
+        ))}
+      </div>
+
+      {result && (
+        <div className="mt-3 space-y-3 text-xs">
+          <p className="text-gray-400">
+            {result.changed.length} changed · {result.added.length} added ·{" "}
+            {result.removed.length} removed · {result.unchanged} unchanged
+          </p>
+          {result.changed.length > 0 && (
+            <div>
+              <h3 className="mb-1 font-medium text-amber-300">
+                Changed ({result.changed.length})
+              </h3>
+              <ul className="space-y-1">
+                {result.changed.map(({ after, changes }, i) => (
+                  <li key={i}>
+                    <span className="text-gray-200">{after.name}</span>
+                    <span className="text-gray-500">
+                      {" "}
+                      — {changes.map((change) => change.text).join(", ")}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <EntryList
+            title="Added"
+            entries={result.added}
+            className="text-green-300"
+          />
+          <EntryList
+            title="Removed"
+            entries={result.removed}
+            className="text-red-300"
+          />
+          {result.errors.map((error, i) => (
+            <p key={i} className="text-red-300">
+              {error}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import type { ConfigReport } from "../converter/validate";
+import { cn } from "../utils/cn";
+
+export function DiagnosticsPanel({ reports }: { reports: ConfigReport[] }) {
+  return (
+    <>
+      {reports.map((report) => {
+        const errorCount = report.diagnostics.filter(
+          (d) => d.severity === "error"
+        ).length;
+        return (
+          <div
+            key={report.label}
+            className={cn(
+              "rounded-lg border px-4 py-3 text-sm",
+              errorCount > 0
+                ? "border-red-900/50 bg-red-950/30"
+                : "border-amber-900/50 bg-amber-950/20"
+            )}
+          >
+            <div className="mb-2 flex items-center justify-between gap-2">
+              <span className="font-semibold text-gray-200">
+                {report.label}
+              </span>
+              <span className="text-xs text-gray-500">
+                {errorCount} error{errorCount !== 1 ? "s" : ""},{" "}
+                {report.diagnostics.length - errorCount} warning
+                {report.diagnostics.length - errorCount !== 1 ? "s" : ""}
+              </span>
+            </div>
+            <ul className="space-y-1">
+              {report.diagnostics.map((d, i) => (
+                <li key={i} className="flex gap-2 text-xs">
+                  <span
+                    className={cn(
+                      "font-semibold",
+                      d.severity === "error" ? "text-red-400" : "text-amber-400"
+                    )}
+                  >
+                    {d.severity === "error" ? "⚠" : "!"}
+                  </span>
+                  <code className="shrink-0 font-mono text-gray-400">
+                    {d.path}
+                  </code>
+                  <span
+                    className={
+                      d.severity === "error" ? "text-red-300" : "text-amber-200"
+                    }
+                  >
+                    {d.message}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,142 @@
+import { useRef, useState, type ChangeEvent, type ReactNode } from "react";
+import type { ConfigInput } from "../converter/outbounds";
+import { collectDroppedFiles } from "../utils/files";
+
+const buttonClass =
+  "rounded-lg bg-gray-800 px-3 py-1.5 text-xs font-medium text-gray-300 transition hover:bg-gray-700 hover:text-white";
+
+export function FileImportButtons({
+  accept,
+  onFiles,
+}: {
+  accept: string;
+  onFiles: (files: File[]) => void;
+}) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const folderRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
+    onFiles(Array.from(e.target.files || []));
+    // Allow picking the same file again after it was removed
+    e.target.value = "";
+  };
+
+  return (
+    <>
+      <button onClick={() => fileRef.current?.click()} className={buttonClass}>
+        Open Files
+      </button>
+      <button
+        onClick={() => folderRef.current?.click()}
+        className={buttonClass}
+      >
+        Open Folder
+      </button>
+      <input
+        ref={fileRef}
+        type="file"
+        multiple
+        accept={accept}
+        onChange={handleChange}
+        className="hidden"
+      />
+      <input
+        ref={folderRef}
+        type="file"
+        // Not in React's typings, but supported by every current browser
+        {...{ webkitdirectory: "" }}
+        onChange={handleChange}
+        className="hidden"
+      />
+    </>
+  );
+}
+
+export function FileDropZone({
+  onFiles,
+  children,
+}: {
+  onFiles: (files: File[]) => void | Promise<void>;
+  children: ReactNode;
+}) {
+  const [dragging, setDragging] = useState(false);
+  const [dropError, setDropError] = useState("");
+
+  return (
+    <div
+      className="relative flex flex-col"
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes("Files")) return;
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+          setDragging(false);
+        }
+      }}
+      onDrop={async (e) => {
+        if (!e.dataTransfer.types.includes("Files")) return;
+        e.preventDefault();
+        setDragging(false);
+        setDropError("");
+        try {
+          await onFiles(await collectDroppedFiles(e.dataTransfer));
+        } catch (err) {
+          // e.g. a file removed or made unreadable since it was dragged
+          setDropError(
+            `Could not read the dropped files: ${err instanceof Error ? err.message : String(err)}`
+          );
+        }
+      }}
+    >
+      {children}
+      {dropError && <p className="mt-2 text-xs text-red-300">{dropError}</p>}
+      {dragging && (
+        <div className="pointer-events-none absolute inset-0 flex items-center justify-center rounded-xl border-2 border-dashed border-blue-500 bg-gray-950/80 text-sm font-medium text-blue-300">
+          Drop files or folders to import
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function LoadedFiles({
+  files,
+  onRemove,
+  onClear,
+}: {
+  files: ConfigInput[];
+  onRemove: (source: string) => void;
+  onClear: () => void;
+}) {
+  if (files.length === 0) return null;
+
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-1.5">
+      {files.map(({ source = "" }) => (
+        <span
+          key={source}
+          className="inline-flex max-w-full items-center gap-1 rounded-full bg-gray-800 py-0.5 pl-2.5 pr-1 font-mono text-xs text-gray-300"
+        >
+          <span className="truncate">{source}</span>
+          <button
+            onClick={() => onRemove(source)}
+            aria-label={`Remove ${source}`}
+            className="rounded-full px-1 text-gray-500 transition hover:bg-gray-700 hover:text-white"
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      {files.length > 1 && (
+        <button
+          onClick={onClear}
+          className="px-1.5 text-xs text-gray-500 transition hover:text-white"
+        >
+          Remove all
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+import { useMemo, useState, type ReactNode, type Ref } from "react";
+import {
+  activeParams,
+  draftFromText,
+  EDITABLE_PROTOCOLS,
+  renderDraft,
+  type DraftIssue,
+  type LinkDraft,
+} from "../converter/editor";
+import { STREAM_PARAMS, UTLS_FINGERPRINTS } from "../converter/stream";
+import { cn } from "../utils/cn";
+
+const inputClass =
+  "w-full rounded-md border bg-gray-900/80 px-2 py-1 font-mono text-xs text-gray-200 placeholder-gray-600 outline-none transition focus:border-blue-500";
+
+const NETWORKS = [
+  "tcp",
+  "ws",
+  "grpc",
+  "xhttp",
+  "httpupgrade",
+  "h2",
+  "quic",
+  "kcp",
+];
+const PACKET_HEADERS = [
+  "none",
+  "srtp",
+  "utp",
+  "wechat-video",
+  "dtls",
+  "wireguard",
+];
+const VMESS_CIPHERS = [
+  "auto",
+  "aes-128-gcm",
+  "chacha20-poly1305",
+  "none",
+  "zero",
+];
+
+// Fixed choices for parameters that take one; the rest are free text
+function choicesFor(param: string, draft: LinkDraft): string[] | null {
+  const network = draft.params.type || "tcp";
+  switch (param) {
+    case "type":
+      return NETWORKS;
+    case "security":
+      // v2rayN's VMess JSON has no REALITY fields
+      return draft.protocol === "vmess"
+        ? ["none", "tls"]
+        : ["none", "tls", "reality"];
+    case "fp":
+      return ["", ...UTLS_FINGERPRINTS];
+    case "allowInsecure":
+      return ["", "1"];
+    case "mode":
+      return network === "grpc"
+        ? ["gun", "multi"]
+        : ["auto", "packet-up", "stream-up", "stream-one"];
+    case "headerType":
+      return network === "tcp" ? ["none", "http"] : PACKET_HEADERS;
+    default:
+      return null;
+  }
+}
+
+function Field({
+  label,
+  title,
+  issues,
+  children,
+}: {
+  label: string;
+  title?: string;
+  issues: DraftIssue[];
+  children: ReactNode;
+}) {
+  return (
+    <label className="flex flex-col gap-0.5" title={title}>
+      <span className="font-mono text-[11px] text-gray-500">{label}</span>
+      {children}
+      {issues.map((issue, i) => (
+        <span
+          key={i}
+          className={
+            issue.severity === "error" ? "text-red-300" : "text-amber-200"
+          }
+        >
+          {issue.message}
+        </span>
+      ))}
+    </label>
+  );
+}
+
+// Form for one link or outbound that regenerates the link and its JSON on
+// every change. Editing the text above the form reloads the form, so the two
+// stay in sync both ways.
+export function LinkEditor({
+  text,
+  onTextChange,
+  ref,
+}: {
+  text: string;
+  onTextChange: (text: string) => void;
+  ref?: Ref<HTMLDivElement>;
+}) {
+  const [draft, setDraft] = useState<LinkDraft | null>(null);
+  const [loadError, setLoadError] = useState("");
+  const [syncedText, setSyncedText] = useState("");
+  const [showJson, setShowJson] = useState(false);
+
+  // Text changed from outside the form: load it
+  if (text !== syncedText) {
+    setSyncedText(text);
+    if (!text.trim()) {
+      setDraft(null);
+      setLoadError("");
+    } else {
+      try {
+        setDraft(draftFromText(text));
+        setLoadError("");
+      } catch (e) {
+        setLoadError(e instanceof Error ? e.message : String(e));
+      }
+    }
+  }
+
+  const rendered = useMemo(() => (draft ? renderDraft(draft) : null), [draft]);
+
+  const update = (next: LinkDraft) => {
+    setDraft(next);
+    const link = renderDraft(next).link;
+    if (link) {
+      setSyncedText(link);
+      onTextChange(link);
+    }
+  };
+  const setField = (
+    field: keyof Omit<LinkDraft, "params" | "extras" | "dropped">,
+    value: string
+  ) => draft && update({ ...draft, [field]: value });
+  const setParam = (param: string, value: string) =>
+    draft && update({ ...draft, params: { ...draft.params, [param]: value } });
+
+  const issuesFor = (field: string) =>
+    rendered?.issues.filter((issue) => issue.field === field) || [];
+  const fieldClass = (field: string) =>
+    cn(
+      inputClass,
+      issuesFor(field).some((issue) => issue.severity === "error")
+        ? "border-red-700"
+        : "border-gray-700"
+    );
+
+  const textField = (
+    field: keyof Omit<LinkDraft, "params" | "extras" | "dropped">,
+    label: string
+  ) =>
+    draft && (
+      <Field label={label} issues={issuesFor(field)}>
+        <input
+          type="text"
+          value={draft[field]}
+          onChange={(e) => setField(field, e.target.value)}
+          spellCheck={false}
+          className={fieldClass(field)}
+        />
+      </Field>
+    );
+
+  return (
+    <div
+      ref={ref}
+      className="mt-6 rounded-xl border border-gray-800 bg-gray-900/50 p-4"
+    >
+      <h2 className="mb-3 text-sm font-semibold text-gray-300">
+        ✏️ Link Editor
+      </h2>
+      <textarea
+        value={text}
+        onChange={(e) => onTextChange(e.target.value)}
+        placeholder="Paste a vless://, vmess://, trojan:// or ss:// link, or an outbound as JSON, to edit it field by field"
+        spellCheck={false}
+        rows={2}
+        className={cn(inputClass, "resize-y border-gray-700")}
+      />
+      {loadError && <p className="mt-2 text-xs text-red-300">{loadError}</p>}
+
+      {draft && rendered && (
+        <div className="mt-3 space-y-3 text-xs">
+          <div className="grid gap-2 sm:grid-cols-3">
+            <Field label="protocol" issues={[]}>
+              <select
+                value={draft.protocol}
+                onChange={(e) => setField("protocol", e.target.value)}
+                className={fieldClass("protocol")}
+              >
+                {EDITABLE_PROTOCOLS.map((protocol) => (
+                  <option key={protocol}>{protocol}</option>
+                ))}
+              </select>
+            </Field>
+            {textField("address", "address")}
+            {textField("port", "port")}
+            {textField(
+              "credential",
+              ["vless", "vmess"].includes(draft.protocol) ? "uuid" : "password"
+            )}
+            {draft.protocol === "vless" && (
+              <Field label="flow" issues={issuesFor("flow")}>
+                <select
+                  value={draft.flow}
+                  onChange={(e) => setField("flow", e.target.value)}
+                  className={fieldClass("flow")}
+                >
+                  <option value="">none</option>
+                  <option>xtls-rprx-vision</option>
+                </select>
+              </Field>
+            )}
+            {draft.protocol === "vmess" && (
+              <Field label="cipher" issues={issuesFor("method")}>
+                <select
+                  value={draft.method}
+                  onChange={(e) => setField("method", e.target.value)}
+                  className={fieldClass("method")}
+                >
+                  {VMESS_CIPHERS.map((cipher) => (
+                    <option key={cipher}>{cipher}</option>
+                  ))}
+                </select>
+              </Field>
+            )}
+            {draft.protocol === "vless" &&
+              textField("encryption", "encryption")}
+            {draft.protocol === "shadowsocks" && textField("method", "method")}
+            {draft.protocol === "shadowsocks" && textField("plugin", "plugin")}
+            {textField("remarks", "remarks")}
+          </div>
+
+          {activeParams(draft).length > 0 && (
+            <div className="grid gap-2 border-t border-gray-800 pt-3 sm:grid-cols-3">
+              {activeParams(draft).map((param) => {
+                const choices = choicesFor(param, draft);
+                const value = draft.params[param] || "";
+                return (
+                  <Field
+                    key={param}
+                    label={param}
+                    title={STREAM_PARAMS[param].explanation}
+                    issues={issuesFor(param)}
+                  >
+                    {choices ? (
+                      <select
+                        value={value}
+                        onChange={(e) => setParam(param, e.target.value)}
+                        className={fieldClass(param)}
+                      >
+                        {/* Keep a value the list does not know visible */}
+                        {!choices.includes(value) && <option>{value}</option>}
+                        {choices.map((choice) => (
+                          <option key={choice} value={choice}>
+                            {choice || "(none)"}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type="text"
+                        value={value}
+                        onChange={(e) => setParam(param, e.target.value)}
+                        placeholder={STREAM_PARAMS[param].explanation}
+                        spellCheck={false}
+                        className={fieldClass(param)}
+                      />
+                    )}
+                  </Field>
+                );
+              })}
+            </div>
+          )}
+
+          {rendered.issues
+            .filter((issue) => !issue.field)
+            .map((issue, i) => (
+              <p
+                key={i}
+                className={
+                  issue.severity === "error" ? "text-red-300" : "text-amber-200"
+                }
+              >
+                {issue.message}
+              </p>
+            ))}
+
+          {rendered.link && (
+            <code className="block max-h-24 overflow-auto break-all rounded-md bg-gray-950/60 p-2 font-mono text-gray-300">
+              {rendered.link}
+            </code>
+          )}
+          {rendered.config && (
+            <div>
+              <button
+                onClick={() => setShowJson(!showJson)}
+                className="text-gray-500 transition hover:text-white"
+              >
+                {showJson ? "Hide JSON" : "Show JSON"}
+              </button>
+              {showJson && (
+                <pre className="mt-1 max-h-80 overflow-auto rounded-md bg-gray-950/60 p-2 font-mono text-gray-300">
+                  {JSON.stringify(rendered.config, null, 2)}
+                </pre>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
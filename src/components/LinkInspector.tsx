@@ -0,0 +1,140 @@
+import { useMemo, type Ref } from "react";
+import { inspectLink, type InspectedParam } from "../converter/inspect";
+import { cn } from "../utils/cn";
+
+const STATUS_CLASS: Record<InspectedParam["status"], string> = {
+  ok: "text-gray-200",
+  ignored: "text-gray-500 line-through",
+  unknown: "text-amber-300",
+};
+
+// Decodes one share link and explains it parameter by parameter
+export function LinkInspector({
+  link,
+  onLinkChange,
+  ref,
+}: {
+  link: string;
+  onLinkChange: (link: string) => void;
+  ref?: Ref<HTMLDivElement>;
+}) {
+  const inspection = useMemo(
+    () => (link.trim() ? inspectLink(link) : null),
+    [link]
+  );
+  const flagged = new Set(inspection?.issues.map((issue) => issue.key));
+
+  return (
+    <div
+      ref={ref}
+      className="mt-6 rounded-xl border border-gray-800 bg-gray-900/50 p-4"
+    >
+      <h2 className="mb-3 text-sm font-semibold text-gray-300">
+        🔍 Link Inspector
+      </h2>
+      <textarea
+        value={link}
+        onChange={(e) => onLinkChange(e.target.value)}
+        placeholder="Paste a single vless://, vmess://, trojan://, ss://, hysteria2://, tuic://, wireguard://, socks:// or http:// link to see what each part means"
+        spellCheck={false}
+        rows={2}
+        className="w-full resize-y rounded-md border border-gray-700 bg-gray-900/80 px-2 py-1 font-mono text-xs text-gray-200 placeholder-gray-600 outline-none transition focus:border-blue-500"
+      />
+
+      {inspection && (
+        <div className="mt-3 space-y-3">
+          {inspection.issues.length > 0 && (
+            <ul className="space-y-1">
+              {inspection.issues.map((issue, i) => (
+                <li key={i} className="flex gap-2 text-xs">
+                  <span
+                    className={cn(
+                      "font-semibold",
+                      issue.severity === "error"
+                        ? "text-red-400"
+                        : "text-amber-400"
+                    )}
+                  >
+                    {issue.severity === "error" ? "⚠" : "!"}
+                  </span>
+                  <span
+                    className={
+                      issue.severity === "error"
+                        ? "text-red-300"
+                        : "text-amber-200"
+                    }
+                  >
+                    {issue.message}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {inspection.issues.length === 0 && (
+            <p className="text-xs text-green-400">
+              ✓ Every parameter is known and consistent.
+            </p>
+          )}
+
+          {inspection.decoded && (
+            <details className="text-xs">
+              <summary className="cursor-pointer text-gray-400 select-none">
+                Decoded {inspection.protocol === "vmess" ? "JSON" : "user info"}
+              </summary>
+              <pre className="mt-1 overflow-auto rounded-md bg-gray-950/60 p-2 font-mono text-gray-300">
+                {inspection.decoded}
+              </pre>
+            </details>
+          )}
+
+          {inspection.params.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-xs">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="py-1 pr-3 font-medium">Parameter</th>
+                    <th className="py-1 pr-3 font-medium">Value</th>
+                    <th className="py-1 font-medium">Meaning</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {inspection.params.map((param, i) => (
+                    <tr
+                      key={i}
+                      className={cn(
+                        "border-t border-gray-800 align-top",
+                        flagged.has(param.key) && "bg-amber-950/20"
+                      )}
+                    >
+                      <td
+                        className={cn(
+                          "py-1.5 pr-3 font-mono",
+                          STATUS_CLASS[param.status]
+                        )}
+                      >
+                        {param.key}
+                      </td>
+                      <td className="max-w-xs py-1.5 pr-3 font-mono break-all text-gray-300">
+                        {param.value || (
+                          <span className="text-gray-600">(empty)</span>
+                        )}
+                      </td>
+                      <td className="py-1.5 text-gray-400">
+                        {param.explanation}
+                        {param.field && (
+                          <code className="ml-1 font-mono text-[11px] text-gray-600">
+                            {param.field}
+                          </code>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  encodeQr,
+  QR_COMFORTABLE_BYTES,
+  qrToPngDataUrl,
+  qrToSvg,
+} from "../utils/qr";
+import { cn } from "../utils/cn";
+
+const buttonClass =
+  "rounded-lg bg-gray-800 px-3 py-1.5 text-xs font-medium text-gray-300 transition hover:bg-gray-700 hover:text-white";
+
+function fileSlug(title: string): string {
+  return (
+    title
+      .trim()
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .replace(/^-+|-+$/g, "") || "qr"
+  );
+}
+
+function download(url: string, name: string) {
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+}
+
+function svgDataUrl(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+// Small QR that opens the full view on click
+export function QrThumbnail({ text, title }: { text: string; title: string }) {
+  const [open, setOpen] = useState(false);
+  const qr = useMemo(() => encodeQr(text), [text]);
+  const src = useMemo(() => (qr ? svgDataUrl(qrToSvg(qr, 2)) : ""), [qr]);
+  const hard = !qr || qr.bytes > QR_COMFORTABLE_BYTES;
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        title={hard ? "Long payload: may be hard to scan" : "Show QR code"}
+        className={cn(
+          "relative h-20 w-20 shrink-0 overflow-hidden rounded-md border bg-white transition hover:scale-105",
+          hard ? "border-amber-500" : "border-gray-700"
+        )}
+      >
+        {qr ? (
+          <img
+            src={src}
+            alt={`QR code for ${title}`}
+            className="h-full w-full"
+          />
+        ) : (
+          <span className="text-[10px] font-medium text-gray-600">
+            Too long
+          </span>
+        )}
+        {hard && qr && (
+          <span className="absolute right-0.5 bottom-0.5 rounded bg-amber-500 px-1 text-[10px] font-bold text-gray-900">
+            !
+          </span>
+        )}
+      </button>
+      {open && (
+        <QrDialog text={text} title={title} onClose={() => setOpen(false)} />
+      )}
+    </>
+  );
+}
+
+export function QrDialog({
+  text,
+  title,
+  onClose,
+}: {
+  text: string;
+  title: string;
+  onClose: () => void;
+}) {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  // iPhone Safari has no Fullscreen API for elements, and browsers refuse it
+  // in some frames; the dialog then grows to the whole viewport instead
+  const [enlarged, setEnlarged] = useState(false);
+  const qr = useMemo(() => encodeQr(text), [text]);
+  const svg = useMemo(() => (qr ? qrToSvg(qr) : ""), [qr]);
+  const bytes = new TextEncoder().encode(text).length;
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const handleFullscreen = () => {
+    const dialog = dialogRef.current;
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    } else if (enlarged) {
+      setEnlarged(false);
+    } else if (
+      !dialog ||
+      !document.fullscreenEnabled ||
+      typeof dialog.requestFullscreen !== "function"
+    ) {
+      setEnlarged(true);
+    } else {
+      dialog.requestFullscreen().catch(() => setEnlarged(true));
+    }
+  };
+
+  return (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-label={`QR code for ${title}`}
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+      className={cn(
+        "fixed inset-0 z-50 flex flex-col items-center justify-center gap-4 bg-gray-950/90 backdrop-blur-sm",
+        enlarged ? "p-1" : "p-4"
+      )}
+    >
+      <h2 className="max-w-full truncate text-sm font-semibold text-gray-200">
+        {title}
+      </h2>
+      {qr ? (
+        <img
+          src={svgDataUrl(svg)}
+          alt={`QR code for ${title}`}
+          className={cn(
+            "aspect-square rounded-lg",
+            enlarged ? "w-[min(98vw,88vh)]" : "w-[min(80vw,80vh)]"
+          )}
+          style={{ imageRendering: "pixelated" }}
+        />
+      ) : (
+        <p className="max-w-md text-center text-sm text-red-300">
+          {bytes} bytes do not fit in a single QR code. Share a link to the
+          subscription instead.
+        </p>
+      )}
+      {qr && qr.bytes > QR_COMFORTABLE_BYTES && (
+        <p className="max-w-md text-center text-xs text-amber-300">
+          {qr.bytes} bytes ({qr.size}×{qr.size} modules). Phone cameras read
+          codes this dense unreliably; scan from close up on a large screen.
+        </p>
+      )}
+      <div className="flex flex-wrap justify-center gap-2">
+        {qr && (
+          <>
+            <button
+              onClick={() =>
+                download(qrToPngDataUrl(qr), `${fileSlug(title)}.png`)
+              }
+              className={buttonClass}
+            >
+              Download PNG
+            </button>
+            <button
+              onClick={() =>
+                download(svgDataUrl(svg), `${fileSlug(title)}.svg`)
+              }
+              className={buttonClass}
+            >
+              Download SVG
+            </button>
+            <button onClick={handleFullscreen} className={buttonClass}>
+              {enlarged ? "Shrink" : "Fullscreen"}
+            </button>
+          </>
+        )}
+        <button
+          onClick={onClose}
+          className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white transition hover:bg-blue-500"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useRef } from "react";
+import { REMARKS_PLACEHOLDERS } from "../converter/remarks";
+
+const inputClass =
+  "w-full rounded-md border border-gray-700 bg-gray-900/80 px-2 py-1 font-mono text-xs text-gray-200 placeholder-gray-600 outline-none transition focus:border-blue-500";
+
+export const SAMPLE_TEMPLATE =
+  "{flag} {country}-{index} · {security}/{network}";
+
+// Template and address → country map used to rename every exported proxy
+export function RemarksTemplateOptions({
+  template,
+  countries,
+  countryErrors,
+  onTemplateChange,
+  onCountriesChange,
+}: {
+  template: string;
+  countries: string;
+  countryErrors: string[];
+  onTemplateChange: (template: string) => void;
+  onCountriesChange: (countries: string) => void;
+}) {
+  const templateRef = useRef<HTMLInputElement>(null);
+
+  // Inserts at the cursor, or appends when the field was never focused
+  const insert = (placeholder: string) => {
+    const el = templateRef.current;
+    const token = `{${placeholder}}`;
+    const start = el?.selectionStart ?? template.length;
+    const end = el?.selectionEnd ?? template.length;
+    onTemplateChange(template.slice(0, start) + token + template.slice(end));
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  return (
+    <details className="w-full max-w-xl rounded-xl border border-gray-800 bg-gray-900/50 px-4 py-2 text-xs text-gray-400">
+      <summary className="cursor-pointer select-none py-1 font-medium text-gray-300">
+        Proxy names{template.trim() && `: ${template}`}
+      </summary>
+      <div className="mt-2 flex flex-col gap-2 pb-2">
+        <input
+          ref={templateRef}
+          type="text"
+          value={template}
+          onChange={(e) => onTemplateChange(e.target.value)}
+          placeholder={`Leave empty to keep the config remarks, e.g. ${SAMPLE_TEMPLATE}`}
+          spellCheck={false}
+          className={inputClass}
+        />
+        <div className="flex flex-wrap gap-1">
+          {REMARKS_PLACEHOLDERS.map((name) => (
+            <button
+              key={name}
+              onClick={() => insert(name)}
+              className="rounded bg-gray-800 px-1.5 py-0.5 font-mono text-[11px] text-gray-400 transition hover:bg-gray-700 hover:text-white"
+            >
+              {`{${name}}`}
+            </button>
+          ))}
+        </div>
+        <label className="mt-1 font-medium text-gray-400">
+          Countries for {"{country}"} and {"{flag}"}, one address per line
+        </label>
+        <textarea
+          value={countries}
+          onChange={(e) => onCountriesChange(e.target.value)}
+          placeholder={"203.0.113.7 DE\n.nl.example.com NL\n# or a JSON object"}
+          spellCheck={false}
+          rows={4}
+          className={inputClass}
+        />
+        {countryErrors.map((error) => (
+          <p key={error} className="text-amber-300">
+            {error}
+          </p>
+        ))}
+      </div>
+    </details>
+  );
+}
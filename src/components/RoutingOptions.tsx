@@ -0,0 +1,216 @@
+import { useMemo } from "react";
+import type { LoadedConfig } from "../converter/outbounds";
+import {
+  analyzeRouting,
+  type RoutingGraph,
+  type RoutingNode,
+} from "../converter/routing";
+import { cn } from "../utils/cn";
+
+const ROLE_BADGES: Record<RoutingNode["role"], string> = {
+  exit: "bg-blue-500/20 text-blue-300",
+  hop: "bg-purple-500/20 text-purple-300",
+  unused: "bg-gray-800 text-gray-500",
+};
+
+interface NodeGroup {
+  title: string;
+  note?: string;
+  nodes: RoutingNode[];
+}
+
+// Routed balancers first, then exits rules reach on their own, then hops and
+// outbounds nothing reaches
+function groupNodes(graph: RoutingGraph): NodeGroup[] {
+  const groups: NodeGroup[] = graph.balancers.map((balancer) => ({
+    title: `⚖ ${balancer.tag}`,
+    note: [
+      balancer.strategy,
+      `selects ${balancer.selector.map((s) => `${s}*`).join(", ") || "nothing"}`,
+      balancer.routed ? "" : "no rule uses it",
+    ]
+      .filter(Boolean)
+      .join(" · "),
+    nodes: graph.nodes.filter((node) => balancer.members.includes(node.id)),
+  }));
+  groups.push(
+    {
+      title: "Rules and default",
+      nodes: graph.nodes.filter((node) => node.routes.length > 0),
+    },
+    {
+      title: "Middle hops",
+      note: "only reached as the dialer of another outbound",
+      nodes: graph.nodes.filter((node) => node.role === "hop"),
+    },
+    {
+      title: "Not routed",
+      note: "no rule, balancer or chain reaches these",
+      nodes: graph.nodes.filter((node) => node.role === "unused"),
+    }
+  );
+  return groups.filter((group) => group.nodes.length > 0);
+}
+
+function NodeRow({
+  node,
+  checked,
+  onToggle,
+}: {
+  node: RoutingNode;
+  checked: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <label className="flex cursor-pointer flex-wrap items-center gap-x-2 gap-y-0.5 py-0.5 select-none">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={onToggle}
+        className="accent-blue-600"
+      />
+      <code
+        className={cn(
+          "font-mono",
+          checked ? "text-gray-200" : "text-gray-600 line-through"
+        )}
+      >
+        {node.id}
+      </code>
+      <span
+        className={cn(
+          "rounded px-1.5 text-[10px] font-semibold uppercase",
+          ROLE_BADGES[node.role]
+        )}
+      >
+        {node.role}
+      </span>
+      <span className="text-gray-500">{node.protocol}</span>
+      {node.via && <span className="text-purple-300">→ via {node.via}</span>}
+      {node.hopFor.length > 0 && (
+        <span className="text-purple-300">
+          hop for {node.hopFor.join(", ")}
+        </span>
+      )}
+      {node.routes.length > 0 && (
+        <span className="w-full pl-6 text-gray-500">
+          {node.routes.join(" · ")}
+        </span>
+      )}
+    </label>
+  );
+}
+
+// Shows how each config's routing reaches its proxy outbounds and lets the
+// user pick which of them to convert. Configs with a single proxy have
+// nothing to pick and are left out.
+export function RoutingOptions({
+  configs,
+  excluded,
+  onExcludedChange,
+}: {
+  configs: LoadedConfig[];
+  excluded: Record<string, string[]>;
+  onExcludedChange: (excluded: Record<string, string[]>) => void;
+}) {
+  const graphs = useMemo(
+    () =>
+      configs
+        .map(({ config, label }) => ({ label, graph: analyzeRouting(config) }))
+        .filter(({ graph }) => graph.nodes.length > 1),
+    [configs]
+  );
+  if (graphs.length === 0) return null;
+
+  const skippedCount = graphs.reduce(
+    (sum, { label, graph }) =>
+      sum +
+      graph.nodes.filter((node) => excluded[label]?.includes(node.id)).length,
+    0
+  );
+
+  const setSkipped = (label: string, ids: string[]) =>
+    onExcludedChange({ ...excluded, [label]: ids });
+
+  const toggle = (label: string, id: string) => {
+    const current = excluded[label] || [];
+    setSkipped(
+      label,
+      current.includes(id)
+        ? current.filter((other) => other !== id)
+        : [...current, id]
+    );
+  };
+
+  return (
+    <details className="w-full max-w-xl rounded-xl border border-gray-800 bg-gray-900/50 px-4 py-2 text-xs text-gray-400">
+      <summary className="cursor-pointer select-none py-1 font-medium text-gray-300">
+        Exits and routing
+        {skippedCount > 0 && `: ${skippedCount} left out`}
+      </summary>
+      <div className="mt-2 flex flex-col gap-4 pb-2">
+        {graphs.map(({ label, graph }) => (
+          <div key={label} className="flex flex-col gap-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="truncate font-semibold text-gray-300">
+                {label}
+              </span>
+              <div className="flex shrink-0 gap-2">
+                <button
+                  onClick={() => setSkipped(label, [])}
+                  className="text-gray-500 transition hover:text-white"
+                >
+                  All
+                </button>
+                <button
+                  onClick={() =>
+                    setSkipped(
+                      label,
+                      graph.nodes
+                        .filter((node) => node.role !== "exit")
+                        .map((node) => node.id)
+                    )
+                  }
+                  className="text-gray-500 transition hover:text-white"
+                >
+                  Routed exits only
+                </button>
+              </div>
+            </div>
+            {groupNodes(graph).map((group) => (
+              <div
+                key={group.title}
+                className="rounded-lg border border-gray-800 px-3 py-2"
+              >
+                <div className="mb-1 flex flex-wrap gap-x-2">
+                  <span className="font-medium text-gray-300">
+                    {group.title}
+                  </span>
+                  {group.note && (
+                    <span className="text-gray-600">{group.note}</span>
+                  )}
+                </div>
+                {group.nodes.map((node) => (
+                  <NodeRow
+                    key={node.id}
+                    node={node}
+                    checked={!excluded[label]?.includes(node.id)}
+                    onToggle={() => toggle(label, node.id)}
+                  />
+                ))}
+              </div>
+            ))}
+            {graph.issues.map((issue) => (
+              <p key={issue} className="text-amber-300">
+                {issue}
+              </p>
+            ))}
+          </div>
+        ))}
+        <p className="text-gray-600">
+          Clash and sing-box keep a chain only when its hop is converted too.
+        </p>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,46 @@
+// Toggle for reading server inbounds, plus the address clients should dial,
+// since inbounds usually listen on 0.0.0.0
+export function ServerModeOptions({
+  enabled,
+  address,
+  detected,
+  onEnabledChange,
+  onAddressChange,
+}: {
+  enabled: boolean;
+  address: string;
+  // The pasted config has proxy inbounds
+  detected: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  onAddressChange: (address: string) => void;
+}) {
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <label className="flex cursor-pointer items-center gap-2 text-xs text-gray-400 select-none">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="accent-blue-600"
+        />
+        Server config: one link per inbound client
+      </label>
+      {enabled && (
+        <input
+          type="text"
+          value={address}
+          onChange={(e) => onAddressChange(e.target.value)}
+          placeholder="Public address, e.g. vpn.example.com or 203.0.113.7"
+          spellCheck={false}
+          className="w-80 max-w-full rounded-md border border-gray-700 bg-gray-900/80 px-2 py-1 font-mono text-xs text-gray-200 placeholder-gray-600 outline-none transition focus:border-blue-500"
+        />
+      )}
+      {!enabled && detected && (
+        <p className="text-xs text-amber-300">
+          This looks like a server config. Tick the box above and enter the
+          server&apos;s public address to get client links.
+        </p>
+      )}
+    </div>
+  );
+}
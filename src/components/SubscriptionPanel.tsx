@@ -0,0 +1,190 @@
+import { useCallback, useMemo, useState } from "react";
+import {
+  buildSubscription,
+  subscriptionFileName,
+  type SubscriptionFormat,
+  type SubscriptionHeaders,
+} from "../converter/subscription";
+import { cn } from "../utils/cn";
+import { downloadBlob } from "../utils/files";
+import { QrDialog } from "./QrCode";
+
+const GB = 1024 ** 3;
+
+const inputClass =
+  "w-full rounded-md border border-gray-700 bg-gray-900/80 px-2 py-1 text-xs text-gray-200 outline-none transition focus:border-blue-500";
+
+function gbToBytes(value: string): number | undefined {
+  if (!value.trim()) return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n * GB : undefined;
+}
+
+export function SubscriptionPanel({ links }: { links: string[] }) {
+  const [format, setFormat] = useState<SubscriptionFormat>("plain");
+  const [title, setTitle] = useState("");
+  const [updateInterval, setUpdateInterval] = useState("");
+  const [upload, setUpload] = useState("");
+  const [download, setDownload] = useState("");
+  const [total, setTotal] = useState("");
+  const [expire, setExpire] = useState("");
+  const [copied, setCopied] = useState(false);
+  const [showQr, setShowQr] = useState(false);
+
+  const headers = useMemo<SubscriptionHeaders>(() => {
+    const expireTime = expire ? Date.parse(expire) : NaN;
+    return {
+      profileTitle: title,
+      updateInterval: updateInterval ? Number(updateInterval) : undefined,
+      userInfo: {
+        upload: gbToBytes(upload),
+        download: gbToBytes(download),
+        total: gbToBytes(total),
+        expire: Number.isNaN(expireTime) ? undefined : expireTime / 1000,
+      },
+    };
+  }, [title, updateInterval, upload, download, total, expire]);
+
+  const content = useMemo(
+    () => buildSubscription(links, format, headers),
+    [links, format, headers]
+  );
+
+  const handleCopy = useCallback(async () => {
+    await navigator.clipboard.writeText(content);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }, [content]);
+
+  const handleDownload = useCallback(() => {
+    downloadBlob(
+      new Blob([content], { type: "text/plain;charset=utf-8" }),
+      subscriptionFileName(headers)
+    );
+  }, [content, headers]);
+
+  return (
+    <div className="mt-6 rounded-xl border border-gray-800 bg-gray-900/50 p-4">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-sm font-semibold text-gray-300">📡 Subscription</h2>
+        <div className="flex gap-2">
+          <div className="inline-flex rounded-lg bg-gray-800 p-0.5">
+            {(
+              [
+                ["plain", "Plain list"],
+                ["base64", "Base64"],
+              ] as const
+            ).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setFormat(value)}
+                className={cn(
+                  "rounded-md px-2.5 py-1 text-xs font-medium transition",
+                  format === value
+                    ? "bg-gray-600 text-white"
+                    : "text-gray-400 hover:text-white"
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleCopy}
+            className="rounded-lg bg-gray-800 px-3 py-1.5 text-xs font-medium text-gray-300 transition hover:bg-gray-700 hover:text-white"
+          >
+            {copied ? "✓ Copied" : "Copy"}
+          </button>
+          <button
+            onClick={() => setShowQr(true)}
+            className="rounded-lg bg-gray-800 px-3 py-1.5 text-xs font-medium text-gray-300 transition hover:bg-gray-700 hover:text-white"
+          >
+            QR
+          </button>
+          <button
+            onClick={handleDownload}
+            className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white transition hover:bg-blue-500"
+          >
+            Download .txt
+          </button>
+        </div>
+      </div>
+
+      <details className="mb-3 text-xs text-gray-400">
+        <summary className="cursor-pointer select-none hover:text-gray-200">
+          Subscription headers (optional)
+        </summary>
+        <div className="mt-3 grid gap-3 sm:grid-cols-3">
+          <label className="flex flex-col gap-1 sm:col-span-2">
+            profile-title
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            profile-update-interval (hours)
+            <input
+              type="number"
+              min={1}
+              value={updateInterval}
+              onChange={(e) => setUpdateInterval(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Uploaded (GB)
+            <input
+              type="number"
+              min={0}
+              value={upload}
+              onChange={(e) => setUpload(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Downloaded (GB)
+            <input
+              type="number"
+              min={0}
+              value={download}
+              onChange={(e) => setDownload(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Total quota (GB)
+            <input
+              type="number"
+              min={0}
+              value={total}
+              onChange={(e) => setTotal(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Expires
+            <input
+              type="date"
+              value={expire}
+              onChange={(e) => setExpire(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+        </div>
+      </details>
+
+      <code className="block max-h-32 overflow-auto whitespace-pre-wrap break-all rounded-md bg-gray-900/70 p-2 font-mono text-xs text-gray-400">
+        {content}
+      </code>
+      {showQr && (
+        <QrDialog
+          text={content}
+          title={title.trim() || "Subscription"}
+          onClose={() => setShowQr(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useRef, useState, type ChangeEvent } from "react";
+import { downloadBlob } from "../utils/files";
+import {
+  defaultProfile,
+  mergeWorkspace,
+  parseWorkspace,
+  saveInput,
+  type HistoryEntry,
+  type SavedInput,
+  type Workspace,
+} from "../utils/workspace";
+
+const buttonClass =
+  "rounded-lg bg-gray-800 px-3 py-1.5 text-xs font-medium text-gray-300 transition hover:bg-gray-700 hover:text-white";
+const linkButtonClass = "text-gray-500 transition hover:text-white";
+const inputClass =
+  "min-w-0 flex-1 rounded-md border border-gray-700 bg-gray-900/80 px-2 py-1 text-xs text-gray-200 placeholder-gray-600 outline-none transition focus:border-blue-500";
+
+function formatTime(at: number): string {
+  return new Date(at).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+// Saved inputs, conversion history and profiles, all kept in this browser.
+// Export and import move the whole workspace as one JSON file.
+export function WorkspacePanel({
+  workspace,
+  current,
+  modeLabels,
+  storageNote,
+  onWorkspaceChange,
+  onProfileSwitch,
+  onLoadInput,
+  onRestore,
+}: {
+  workspace: Workspace;
+  current: { mode: string; text: string };
+  modeLabels: Record<string, string>;
+  storageNote: string;
+  onWorkspaceChange: (workspace: Workspace) => void;
+  onProfileSwitch: (name: string) => void;
+  onLoadInput: (input: SavedInput) => void;
+  onRestore: (entry: HistoryEntry) => void;
+}) {
+  const [inputName, setInputName] = useState("");
+  const [profileName, setProfileName] = useState("");
+  const [importError, setImportError] = useState("");
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const handleSaveInput = () => {
+    const name = inputName.trim();
+    if (!name || !current.text.trim()) return;
+    onWorkspaceChange(
+      saveInput(workspace, { name, ...current, savedAt: Date.now() })
+    );
+    setInputName("");
+  };
+
+  // A new profile starts from the settings in use
+  const handleAddProfile = () => {
+    const name = profileName.trim();
+    if (!name || workspace.profiles.some((p) => p.name === name)) return;
+    const base =
+      workspace.profiles.find((p) => p.name === workspace.activeProfile) ||
+      defaultProfile();
+    onWorkspaceChange({
+      ...workspace,
+      profiles: [...workspace.profiles, { ...base, name }],
+      activeProfile: name,
+    });
+    setProfileName("");
+  };
+
+  const handleDeleteProfile = () => {
+    const profiles = workspace.profiles.filter(
+      (p) => p.name !== workspace.activeProfile
+    );
+    if (profiles.length === 0) return;
+    onWorkspaceChange({ ...workspace, profiles });
+    onProfileSwitch(profiles[0].name);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(workspace, null, 2)], {
+      type: "application/json",
+    });
+    downloadBlob(blob, "xray-converter-workspace.json");
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      onWorkspaceChange(
+        mergeWorkspace(workspace, parseWorkspace(await file.text()))
+      );
+      setImportError("");
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <details className="w-full max-w-xl rounded-xl border border-gray-800 bg-gray-900/50 px-4 py-2 text-xs text-gray-400">
+      <summary className="cursor-pointer select-none py-1 font-medium text-gray-300">
+        Workspace: {workspace.activeProfile}
+      </summary>
+      <div className="mt-2 flex flex-col gap-4 pb-2">
+        <section className="flex flex-col gap-1.5">
+          <h3 className="font-medium text-gray-300">Profile</h3>
+          <p className="text-gray-600">
+            Holds the output format, duplicate handling, proxy name template and
+            countries.
+          </p>
+          <div className="flex gap-2">
+            <select
+              value={workspace.activeProfile}
+              onChange={(e) => onProfileSwitch(e.target.value)}
+              className={inputClass}
+            >
+              {workspace.profiles.map((p) => (
+                <option key={p.name}>{p.name}</option>
+              ))}
+            </select>
+            {workspace.profiles.length > 1 && (
+              <button onClick={handleDeleteProfile} className={buttonClass}>
+                Delete
+              </button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="New profile name"
+              className={inputClass}
+            />
+            <button onClick={handleAddProfile} className={buttonClass}>
+              Add
+            </button>
+          </div>
+        </section>
+
+        <section className="flex flex-col gap-1.5">
+          <h3 className="font-medium text-gray-300">Saved inputs</h3>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={inputName}
+              onChange={(e) => setInputName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSaveInput()}
+              placeholder="Name for the current input"
+              className={inputClass}
+            />
+            <button
+              onClick={handleSaveInput}
+              disabled={!current.text.trim()}
+              className={buttonClass}
+            >
+              Save
+            </button>
+          </div>
+          {workspace.inputs.map((saved) => (
+            <div key={saved.name} className="flex items-center gap-2">
+              <span className="truncate text-gray-200">{saved.name}</span>
+              <span className="shrink-0 text-gray-600">
+                {modeLabels[saved.mode] || saved.mode} ·{" "}
+                {formatTime(saved.savedAt)}
+              </span>
+              <span className="ml-auto flex shrink-0 gap-2">
+                <button
+                  onClick={() => onLoadInput(saved)}
+                  className={linkButtonClass}
+                >
+                  Load
+                </button>
+                <button
+                  onClick={() =>
+                    onWorkspaceChange({
+                      ...workspace,
+                      inputs: workspace.inputs.filter((i) => i !== saved),
+                    })
+                  }
+                  className={linkButtonClass}
+                >
+                  Delete
+                </button>
+              </span>
+            </div>
+          ))}
+        </section>
+
+        <section className="flex flex-col gap-1.5">
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium text-gray-300">History</h3>
+            {workspace.history.length > 0 && (
+              <button
+                onClick={() => onWorkspaceChange({ ...workspace, history: [] })}
+                className={linkButtonClass}
+              >
+                Clear
+              </button>
+            )}
+          </div>
+          {workspace.history.length === 0 && (
+            <p className="text-gray-600">Conversions will be listed here.</p>
+          )}
+          {workspace.history.map((entry) => (
+            <div key={entry.at} className="flex items-center gap-2">
+              <span className="shrink-0 text-gray-200">
+                {formatTime(entry.at)}
+              </span>
+              <span className="truncate text-gray-600">
+                {modeLabels[entry.mode] || entry.mode} · {entry.count} result
+                {entry.count !== 1 ? "s" : ""}
+                {entry.files.length > 0 && ` · ${entry.files.join(", ")}`}
+              </span>
+              <button
+                onClick={() => onRestore(entry)}
+                className={`ml-auto shrink-0 ${linkButtonClass}`}
+              >
+                Restore
+              </button>
+            </div>
+          ))}
+        </section>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={handleExport} className={buttonClass}>
+            Export workspace
+          </button>
+          <button
+            onClick={() => importRef.current?.click()}
+            className={buttonClass}
+          >
+            Import workspace
+          </button>
+          <input
+            ref={importRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+        {importError && <p className="text-red-300">{importError}</p>}
+        {storageNote && <p className="text-amber-300">{storageNote}</p>}
+      </div>
+    </details>
+  );
+}
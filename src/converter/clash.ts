@@ -0,0 +1,410 @@
+import { findExtras, reportLostExtras, type Dialer } from "./extras";
+import type { JsonLocation } from "./jsonc";
+import {
+  mapConfigProxies,
+  parseConfig,
+  type ConfigInput,
+  type ConvertOptions,
+} from "./outbounds";
+import {
+  resolveShadowsocks,
+  resolveSsPlugin,
+  type SsPlugin,
+} from "./shadowsocks";
+import {
+  readHysteria2,
+  readProxyServer,
+  readTuic,
+  readWireguard,
+} from "./servers";
+import { extractStreamParams, splitEarlyData, splitList } from "./stream";
+import type { Outbound } from "./types";
+import type { ConfigReport } from "./validate";
+import { toYaml, type YamlValue } from "./yaml";
+
+type ClashProxy = { [key: string]: YamlValue | undefined };
+
+const TEST_URL = "https://www.gstatic.com/generate_204";
+
+// Maps the link params from extractStreamParams onto mihomo proxy fields
+function applyStream(
+  proxy: ClashProxy,
+  params: Record<string, string>,
+  sniKey: "servername" | "sni",
+  warn: (msg: string) => void
+) {
+  const network = params.type || "tcp";
+
+  switch (network) {
+    case "tcp":
+      if (params.headerType === "http") {
+        proxy.network = "http";
+        proxy["http-opts"] = {
+          method: "GET",
+          path: [params.path || "/"],
+          headers: params.host ? { Host: splitList(params.host) } : undefined,
+        };
+      }
+      break;
+    case "ws":
+    case "httpupgrade": {
+      const { path, earlyData } = splitEarlyData(params.path || "/");
+      proxy.network = "ws";
+      proxy["ws-opts"] = {
+        path,
+        headers: params.host ? { Host: params.host } : undefined,
+        "max-early-data": earlyData,
+        "early-data-header-name":
+          earlyData !== undefined ? "Sec-WebSocket-Protocol" : undefined,
+        "v2ray-http-upgrade": network === "httpupgrade" ? true : undefined,
+      };
+      break;
+    }
+    case "grpc":
+      proxy.network = "grpc";
+      proxy["grpc-opts"] = {
+        "grpc-service-name": params.serviceName || "",
+      };
+      break;
+    case "xhttp":
+      proxy.network = "xhttp";
+      proxy["xhttp-opts"] = {
+        path: params.path || "/",
+        host: params.host,
+        mode: params.mode,
+      };
+      if (params.extra) warn("xhttp extra settings dropped (not in mihomo)");
+      break;
+    case "h2":
+    case "http":
+      proxy.network = "h2";
+      proxy["h2-opts"] = {
+        host: params.host ? splitList(params.host) : undefined,
+        path: params.path || "/",
+      };
+      break;
+    default:
+      throw new Error(`Clash Meta has no "${network}" transport`);
+  }
+
+  if (params.security === "tls" || params.security === "reality") {
+    proxy.tls = true;
+    if (params.sni) proxy[sniKey] = params.sni;
+    if (params.fp) proxy["client-fingerprint"] = params.fp;
+    if (params.alpn) proxy.alpn = splitList(params.alpn);
+    if (params.allowInsecure) proxy["skip-cert-verify"] = true;
+    if (params.ech) {
+      // A DNS server instead of an inline ECHConfigList means "look it up"
+      proxy["ech-opts"] = /^[A-Za-z0-9+/=]+$/.test(params.ech)
+        ? { enable: true, config: params.ech }
+        : { enable: true };
+    }
+    if (params.pcs) warn("pinned certificate hashes dropped (not in mihomo)");
+  }
+
+  if (params.security === "reality") {
+    proxy["reality-opts"] = {
+      "public-key": params.pbk || "",
+      "short-id": params.sid,
+    };
+    if (params.pqv) warn("REALITY mldsa65Verify dropped (not in mihomo)");
+  }
+}
+
+// Hysteria2 and TUIC always run TLS over QUIC; there is no transport to map
+function applyQuicTls(
+  proxy: ClashProxy,
+  params: Record<string, string>,
+  warn: (msg: string) => void
+) {
+  if (params.sni) proxy.sni = params.sni;
+  if (params.alpn) proxy.alpn = splitList(params.alpn);
+  if (params.allowInsecure) proxy["skip-cert-verify"] = true;
+  if (params.pcs) warn("pinned certificate hashes dropped (not in mihomo)");
+}
+
+// mihomo takes one IPv4 and one IPv6 interface address, without the prefix
+function applyWireguardAddresses(
+  proxy: ClashProxy,
+  addresses: string[],
+  warn: (msg: string) => void
+) {
+  const bare = addresses.map((address) => address.replace(/\/\d+$/, ""));
+  const ipv4 = bare.find((address) => !address.includes(":"));
+  const ipv6 = bare.find((address) => address.includes(":"));
+  if (ipv4) proxy.ip = ipv4;
+  if (ipv6) proxy.ipv6 = ipv6;
+  const dropped = bare.filter((a) => a !== ipv4 && a !== ipv6);
+  if (dropped.length > 0) {
+    warn(
+      `interface addresses ${dropped.join(", ")} dropped (mihomo takes one per family)`
+    );
+  }
+}
+
+// mihomo wants plugin options as a map, with simple-obfs named "obfs"
+function applySsPlugin(proxy: ClashProxy, plugin: SsPlugin) {
+  const opts = Object.fromEntries(plugin.options);
+  if (plugin.name === "obfs-local" || plugin.name === "simple-obfs") {
+    proxy.plugin = "obfs";
+    proxy["plugin-opts"] = { mode: opts.obfs, host: opts["obfs-host"] };
+    return;
+  }
+  if (plugin.name === "v2ray-plugin") {
+    proxy.plugin = "v2ray-plugin";
+    proxy["plugin-opts"] = {
+      mode: opts.mode || "websocket",
+      tls: "tls" in opts ? true : undefined,
+      host: opts.host ?? undefined,
+      path: opts.path ?? undefined,
+    };
+    return;
+  }
+  throw new Error(`Clash Meta has no "${plugin.name}" plugin`);
+}
+
+// sockopt fields mihomo has a per-proxy option for
+const SOCKOPT_FIELDS: Record<string, (value: unknown) => [string, YamlValue]> =
+  {
+    tcpFastOpen: () => ["tfo", true],
+    mark: (value) => ["routing-mark", Number(value)],
+    tcpMptcp: () => ["mptcp", true],
+    interface: (value) => ["interface-name", String(value)],
+  };
+
+// Carries what mihomo can express of sockopt and the dialerProxy chain, and
+// warns about the rest. Mux is left out on purpose: mihomo's smux is not
+// Xray's mux.cool, and the server would not understand it.
+function applyExtras(
+  proxy: ClashProxy,
+  outbound: Outbound,
+  dialer: Dialer | undefined,
+  warn: (msg: string) => void
+) {
+  const carried: string[] = [];
+  const sockopt = outbound.streamSettings?.sockopt || {};
+  for (const [key, toField] of Object.entries(SOCKOPT_FIELDS)) {
+    if (!sockopt[key]) continue;
+    const [field, value] = toField(sockopt[key]);
+    proxy[field] = value;
+    carried.push(`sockopt.${key}`);
+  }
+  if (dialer?.name) {
+    proxy["dialer-proxy"] = dialer.name;
+    carried.push("dialerProxy");
+  }
+  reportLostExtras(findExtras(outbound, dialer), carried, "Clash", warn);
+}
+
+function toClashProxy(
+  outbound: Outbound,
+  name: string,
+  warn: (msg: string) => void,
+  dialer?: Dialer
+): ClashProxy {
+  const proxy = buildClashProxy(outbound, name, warn);
+  applyExtras(proxy, outbound, dialer, warn);
+  return proxy;
+}
+
+function buildClashProxy(
+  outbound: Outbound,
+  name: string,
+  warn: (msg: string) => void
+): ClashProxy {
+  const settings = outbound.settings || {};
+  const params = outbound.streamSettings
+    ? extractStreamParams(outbound.streamSettings, warn)
+    : { type: "tcp", security: "none" };
+
+  switch (outbound.protocol) {
+    case "vless":
+    case "vmess": {
+      const server = (settings.vnext as Array<Record<string, unknown>>)[0];
+      const user = (server.users as Array<Record<string, unknown>>)[0];
+      const proxy: ClashProxy = {
+        name,
+        type: outbound.protocol,
+        server: String(server.address),
+        port: Number(server.port),
+        uuid: String(user.id),
+        udp: true,
+      };
+      if (outbound.protocol === "vless") {
+        if (user.flow) proxy.flow = String(user.flow);
+      } else {
+        proxy.alterId = Number(user.alterId || 0);
+        proxy.cipher = String(user.security || "auto");
+      }
+      applyStream(proxy, params, "servername", warn);
+      return proxy;
+    }
+    case "trojan": {
+      const server = (settings.servers as Array<Record<string, unknown>>)[0];
+      const proxy: ClashProxy = {
+        name,
+        type: "trojan",
+        server: String(server.address),
+        port: Number(server.port),
+        password: String(server.password),
+        udp: true,
+      };
+      applyStream(proxy, params, "sni", warn);
+      return proxy;
+    }
+    case "shadowsocks":
+    case "ss": {
+      const server = (settings.servers as Array<Record<string, unknown>>)[0];
+      const { method, password } = resolveShadowsocks(server);
+      const proxy: ClashProxy = {
+        name,
+        type: "ss",
+        server: String(server.address),
+        port: Number(server.port),
+        cipher: method,
+        password,
+        udp: true,
+      };
+      if (server.uot) {
+        proxy["udp-over-tcp"] = true;
+        proxy["udp-over-tcp-version"] = Number(server.UoTVersion || 1);
+      }
+      const plugin = resolveSsPlugin(server, outbound.streamSettings);
+      if (plugin) applySsPlugin(proxy, plugin);
+      return proxy;
+    }
+    case "hysteria2":
+    case "hysteria": {
+      const server = readHysteria2(outbound);
+      const proxy: ClashProxy = {
+        name,
+        type: "hysteria2",
+        server: server.address,
+        port: server.port,
+        ports: server.ports,
+        password: server.auth,
+        obfs: server.obfs?.type,
+        "obfs-password": server.obfs?.password,
+        udp: true,
+      };
+      applyQuicTls(proxy, params, warn);
+      return proxy;
+    }
+    case "tuic": {
+      const server = readTuic(outbound);
+      const proxy: ClashProxy = {
+        name,
+        type: "tuic",
+        server: server.address,
+        port: server.port,
+        uuid: server.uuid,
+        password: server.password,
+        "congestion-controller": server.congestionControl,
+        "udp-relay-mode": server.udpRelayMode,
+        udp: true,
+      };
+      applyQuicTls(proxy, params, warn);
+      if (server.alpn) proxy.alpn = server.alpn;
+      return proxy;
+    }
+    case "wireguard": {
+      const wg = readWireguard(outbound);
+      const proxy: ClashProxy = {
+        name,
+        type: "wireguard",
+        server: wg.peer.address,
+        port: wg.peer.port,
+        "private-key": wg.secretKey,
+        "public-key": wg.peer.publicKey,
+        "pre-shared-key": wg.peer.preSharedKey,
+        reserved: wg.reserved,
+        mtu: wg.mtu,
+        "persistent-keepalive": wg.peer.keepAlive,
+        udp: true,
+      };
+      applyWireguardAddresses(proxy, wg.localAddress, warn);
+      return proxy;
+    }
+    case "socks":
+    case "http": {
+      const server = readProxyServer(outbound);
+      if (params.type !== "tcp" || params.headerType === "http") {
+        throw new Error(
+          `Clash Meta has no ${outbound.protocol} over a "${params.type}" transport`
+        );
+      }
+      const proxy: ClashProxy = {
+        name,
+        type: outbound.protocol === "socks" ? "socks5" : "http",
+        server: server.address,
+        port: server.port,
+        username: server.user,
+        password: server.pass,
+        udp: outbound.protocol === "socks" ? true : undefined,
+      };
+      applyStream(proxy, params, "sni", warn);
+      return proxy;
+    }
+    default:
+      throw new Error(`unsupported protocol "${outbound.protocol}"`);
+  }
+}
+
+export function buildClashConfig(proxies: ClashProxy[]): string {
+  const names = proxies.map((p) => p.name as string);
+  return toYaml({
+    proxies,
+    "proxy-groups": [
+      { name: "PROXY", type: "select", proxies: ["Auto", ...names, "DIRECT"] },
+      {
+        name: "Auto",
+        type: "url-test",
+        url: TEST_URL,
+        interval: 300,
+        tolerance: 50,
+        proxies: names,
+      },
+    ],
+    rules: [
+      "IP-CIDR,127.0.0.0/8,DIRECT,no-resolve",
+      "IP-CIDR,10.0.0.0/8,DIRECT,no-resolve",
+      "IP-CIDR,172.16.0.0/12,DIRECT,no-resolve",
+      "IP-CIDR,192.168.0.0/16,DIRECT,no-resolve",
+      "MATCH,PROXY",
+    ],
+  });
+}
+
+export function convertToClash(
+  input: string | ConfigInput[],
+  options: ConvertOptions = {}
+): {
+  yaml: string;
+  count: number;
+  errors: string[];
+  warnings: string[];
+  reports: ConfigReport[];
+  syntaxError?: JsonLocation;
+} {
+  const { configs, errors, warnings, syntaxError } = parseConfig(
+    input,
+    options
+  );
+
+  const result = mapConfigProxies(configs, toClashProxy, options);
+  const proxies = result.items;
+  const { reports } = result;
+  errors.push(...result.errors);
+  warnings.push(...result.warnings);
+
+  if (proxies.length === 0) {
+    return { yaml: "", count: 0, errors, warnings, reports, syntaxError };
+  }
+  return {
+    yaml: buildClashConfig(proxies),
+    count: proxies.length,
+    errors,
+    warnings,
+    reports,
+  };
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { compareInputs, dedupeInput } from "./compare";
+import { toLinks } from "./links";
+import { parseLinks } from "./parseLink";
+
+const PBK = "2gx0nE-WNhl0Ax1VmIqAvT1oeUfNtwCQvLWmUvAIx3A";
+const ROTATED = "AbQ8xvbQBxL1k7ebhiNP9bHp0ZMlT7lq9yUCz2wGSm0";
+
+function vless(host: string, port: number, pbk: string, name: string) {
+  return `vless://11111111-2222-3333-4444-555555555555@${host}:${port}?encryption=none&type=tcp&security=reality&sni=www.example.com&fp=chrome&pbk=${pbk}&sid=ab#${name}`;
+}
+
+function trojan(host: string, name: string) {
+  return `trojan://secret@${host}:443?security=tls&sni=${host}#${name}`;
+}
+
+describe("compareInputs", () => {
+  const before = [
+    vless("de.example", 443, PBK, "Germany"),
+    trojan("nl.example", "Netherlands"),
+    trojan("us.example", "USA"),
+  ].join("\n");
+
+  it("reports per-field changes, additions and removals", () => {
+    const after = [
+      vless("de.example", 8443, ROTATED, "Germany"),
+      trojan("nl.example", "Amsterdam"),
+      trojan("jp.example", "Japan"),
+    ].join("\n");
+    const result = compareInputs(before, after);
+
+    expect(result.unchanged).toBe(0);
+    expect(result.changed.map((c) => c.changes.map((f) => f.text))).toEqual([
+      ['renamed "Netherlands"→"Amsterdam"'],
+      ["port 443→8443", "pbk changed"],
+    ]);
+    expect(result.removed.map((e) => e.name)).toEqual(["USA"]);
+    expect(result.added.map((e) => e.name)).toEqual(["Japan"]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("pairs a moved server by its credential", () => {
+    const result = compareInputs(
+      vless("de.example", 443, PBK, "Germany"),
+      vless("de2.example", 443, PBK, "Frankfurt")
+    );
+    expect(result.changed[0].changes.map((f) => f.text)).toEqual([
+      'renamed "Germany"→"Frankfurt"',
+      "address de.example→de2.example",
+    ]);
+    expect(result.added).toEqual([]);
+    expect(result.removed).toEqual([]);
+  });
+
+  it("lines up JSON configs with the links they came from", () => {
+    const json = JSON.stringify(parseLinks(before).configs);
+    const result = compareInputs(json, before);
+    expect(result.unchanged).toBe(3);
+    expect(result.changed).toEqual([]);
+  });
+
+  it("tells Shadowsocks links apart by their plugin options", () => {
+    const ss = (opts: string) =>
+      `ss://YWVzLTEyOC1nY206cHc@srv.example:8388/?plugin=${encodeURIComponent(opts)}#s`;
+    const ws = compareInputs(
+      ss("v2ray-plugin;mode=websocket;path=/x"),
+      ss("v2ray-plugin;mode=websocket;path=/y")
+    );
+    expect(ws.changed[0].changes.map((f) => f.text)).toEqual(["path /x→/y"]);
+
+    const obfs = compareInputs(
+      ss("obfs-local;obfs=tls;obfs-host=a.example"),
+      ss("obfs-local;obfs=tls;obfs-host=b.example")
+    );
+    expect(obfs.changed[0].changes.map((f) => f.text)).toEqual([
+      "pluginOpts obfs=tls;obfs-host=a.example→obfs=tls;obfs-host=b.example",
+    ]);
+    expect(obfs.errors).toEqual([]);
+  });
+
+  it("reads every scheme the converters write", () => {
+    const result = compareInputs(
+      "hysteria2://auth@hy.example:443/?sni=hy.example#h\nsocks://me:pw@s.example:1080#s",
+      "hysteria2://auth@hy.example:443/?sni=hy2.example#h\nsocks://me:pw@s.example:1080#s"
+    );
+    expect(result.errors).toEqual([]);
+    expect(result.unchanged).toBe(1);
+    expect(result.changed[0].changes.map((f) => f.text)).toEqual([
+      "sni hy.example→hy2.example",
+    ]);
+  });
+
+  it("counts duplicates on each side and labels errors", () => {
+    const result = compareInputs(
+      `${trojan("nl.example", "a")}\n${trojan("nl.example", "b")}`,
+      "vless://broken"
+    );
+    expect(result.duplicates).toEqual({ before: 1, after: 0 });
+    expect(result.errors[0]).toMatch(/^After: Link #1/);
+  });
+});
+
+describe("dedupeInput", () => {
+  it("keeps the first of links that differ in remarks or parameter order", () => {
+    const reordered =
+      "trojan://secret@nl.example:443?sni=nl.example&security=tls#Copy";
+    const result = dedupeInput(
+      [
+        trojan("nl.example", "Netherlands"),
+        reordered,
+        trojan("us.example", "USA"),
+      ].join("\n")
+    );
+    expect(result.removed).toEqual(["Copy"]);
+    expect(result.text.split("\n")).toHaveLength(2);
+  });
+
+  it("keeps the header lines of a subscription", () => {
+    const result = dedupeInput(
+      [
+        "#profile-title: Work",
+        "#profile-update-interval: 12",
+        trojan("nl.example", "a"),
+        trojan("nl.example", "b"),
+      ].join("\n")
+    );
+    expect(result).toEqual({
+      text: [
+        "#profile-title: Work",
+        "#profile-update-interval: 12",
+        trojan("nl.example", "a"),
+      ].join("\n"),
+      removed: ["b"],
+    });
+  });
+
+  it("keeps Shadowsocks links whose plugin options differ", () => {
+    const links = [
+      "ss://YWVzLTEyOC1nY206cHc@srv.example:8388/?plugin=obfs-local%3Bobfs%3Dtls#a",
+      "ss://YWVzLTEyOC1nY206cHc@srv.example:8388/?plugin=obfs-local%3Bobfs%3Dhttp#b",
+    ].join("\n");
+    expect(dedupeInput(links)).toEqual({ text: links, removed: [] });
+  });
+
+  it("keeps links whose fragment parameter differs", () => {
+    const links = [
+      trojan("nl.example", "a").replace(
+        "#",
+        "&fragment=100-200%2C10%2Ctlshello#"
+      ),
+      trojan("nl.example", "b").replace("#", "&fragment=1-3%2C1%2Ctlshello#"),
+    ].join("\n");
+    expect(dedupeInput(links).removed).toEqual([]);
+    expect(toLinks(links, { dedupe: true }).links).toHaveLength(2);
+    const [before, after] = links.split("\n");
+    expect(
+      compareInputs(before, after).changed[0].changes.map((f) => f.text)
+    ).toEqual([
+      'renamed "a"→"b"',
+      "fragment.length 100-200→1-3",
+      "fragment.interval 10→1",
+    ]);
+  });
+
+  it("drops repeated JSON configs and leaves unique input untouched", () => {
+    const configs = parseLinks(
+      `${trojan("nl.example", "a")}\n${trojan("nl.example", "b")}`
+    ).configs;
+    const result = dedupeInput(JSON.stringify(configs));
+    expect(result.removed).toEqual(["b"]);
+    expect(JSON.parse(result.text)).toHaveLength(1);
+
+    const unique = trojan("nl.example", "a");
+    expect(dedupeInput(unique)).toEqual({ text: unique, removed: [] });
+  });
+});
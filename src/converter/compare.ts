@@ -0,0 +1,325 @@
+import {
+  collectProxies,
+  dialerFragment,
+  parseConfig,
+  proxyKey,
+  readConfigs,
+  type ConfigInput,
+} from "./outbounds";
+import { parseLink } from "./parseLink";
+import { extractStreamParams } from "./stream";
+import { readSubscription } from "./subscription";
+import type { Outbound, XrayConfig } from "./types";
+
+// One proxy of a compared input: its name, its identity as proxyKey builds
+// it, and its settings flattened to link-style fields (address, port, id,
+// sni, pbk, ...) so two inputs in different formats line up field by field
+export interface CompareEntry {
+  name: string;
+  key: string;
+  fields: Record<string, string>;
+}
+
+export interface FieldChange {
+  field: string;
+  before?: string;
+  after?: string;
+  // e.g. "port 443→8443", "pbk changed", "sni added (example.com)"
+  text: string;
+}
+
+export interface ChangedEndpoint {
+  before: CompareEntry;
+  after: CompareEntry;
+  changes: FieldChange[];
+}
+
+export interface Comparison {
+  added: CompareEntry[];
+  removed: CompareEntry[];
+  changed: ChangedEndpoint[];
+  unchanged: number;
+  // Entries repeating an earlier one of the same input but for the name
+  duplicates: { before: number; after: number };
+  errors: string[];
+}
+
+type Obj = Record<string, unknown>;
+
+// Settings keys that read better under another name, or would clash with a
+// stream parameter
+const SETTINGS_RENAMES: Record<string, string> = {
+  security: "cipher",
+};
+
+// Keys and secrets are reported as changed without printing them
+const HIDDEN_FIELD = /^(id|password|pass|pbk|sid|psk)$|key$/i;
+const MAX_SHOWN_LENGTH = 40;
+
+function flatten(
+  value: unknown,
+  path: string,
+  into: Record<string, string>
+): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => flatten(item, `${path}[${i}]`, into));
+  } else if (value && typeof value === "object") {
+    for (const [key, item] of Object.entries(value as Obj)) {
+      flatten(item, path ? `${path}.${key}` : key, into);
+    }
+  } else if (value !== undefined && value !== null && value !== "") {
+    into[path] = String(value);
+  }
+}
+
+// The single server and user expandOutbound leaves are read without their
+// vnext[0].users[0] wrapping, so VLESS, Trojan or WireGuard fields come out
+// as plain address, port, id, password, publicKey
+export function endpointFields(outbound: Outbound): Record<string, string> {
+  const fields: Record<string, string> = { protocol: outbound.protocol };
+  const settings: Record<string, string> = {};
+  flatten(outbound.settings, "", settings);
+  for (const [path, value] of Object.entries(settings)) {
+    const key = path.replace(
+      /^(vnext|servers|peers)\[0\]\.(users\[0\]\.)?/,
+      ""
+    );
+    fields[SETTINGS_RENAMES[key] || key] = value;
+  }
+  const { sockopt, ...stream } = outbound.streamSettings || {};
+  if (outbound.streamSettings) {
+    Object.assign(fields, extractStreamParams(stream));
+  }
+  flatten(sockopt, "sockopt", fields);
+  flatten(outbound.mux, "mux", fields);
+  return fields;
+}
+
+// Proxies of pasted text or files, in the order the converters list them
+export function readEntries(input: string | ConfigInput[]): {
+  entries: CompareEntry[];
+  errors: string[];
+} {
+  const { configs, errors } = parseConfig(input);
+  const entries: CompareEntry[] = [];
+  for (const { config, label, fallbackRemarks } of configs) {
+    const { proxies, skipped } = collectProxies(config, fallbackRemarks);
+    for (const message of skipped) errors.push(`${label}: ${message}`);
+    for (const proxy of proxies) {
+      const fields = endpointFields(proxy.outbound);
+      flatten(dialerFragment(proxy), "fragment", fields);
+      entries.push({ name: proxy.name, key: proxyKey(proxy), fields });
+    }
+  }
+  return { entries, errors };
+}
+
+function showValue(field: string, value: string): boolean {
+  const last = field.slice(field.lastIndexOf(".") + 1);
+  return !HIDDEN_FIELD.test(last) && value.length <= MAX_SHOWN_LENGTH;
+}
+
+function fieldChange(
+  field: string,
+  before?: string,
+  after?: string
+): FieldChange {
+  const value = before ?? after ?? "";
+  const shown = showValue(field, value);
+  let text: string;
+  if (before === undefined) {
+    text = shown ? `${field} added (${after})` : `${field} added`;
+  } else if (after === undefined) {
+    text = `${field} removed`;
+  } else if (shown && showValue(field, after)) {
+    text = `${field} ${before}→${after}`;
+  } else {
+    text = `${field} changed`;
+  }
+  return { field, before, after, text };
+}
+
+// Field by field, in the order the fields appear before then after; a rename
+// comes first
+export function diffEntries(
+  before: CompareEntry,
+  after: CompareEntry
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  if (before.name !== after.name) {
+    changes.push({
+      field: "name",
+      before: before.name,
+      after: after.name,
+      text: `renamed "${before.name}"→"${after.name}"`,
+    });
+  }
+  const fields = new Set([
+    ...Object.keys(before.fields),
+    ...Object.keys(after.fields),
+  ]);
+  for (const field of fields) {
+    if (before.fields[field] !== after.fields[field]) {
+      changes.push(
+        fieldChange(field, before.fields[field], after.fields[field])
+      );
+    }
+  }
+  // Link fields leave out settings links cannot carry
+  if (before.key !== after.key && changes.every((c) => c.field === "name")) {
+    changes.push({ field: "other", text: "other settings changed" });
+  }
+  return changes;
+}
+
+function countDuplicates(entries: CompareEntry[]): number {
+  return entries.length - new Set(entries.map((e) => e.key)).size;
+}
+
+// Pairs an entry of one side with the first unpaired entry of the other that
+// has the same identity, as given by identify
+function pairUp(
+  before: CompareEntry[],
+  after: CompareEntry[],
+  identify: (entry: CompareEntry) => string | null,
+  pair: (before: CompareEntry, after: CompareEntry) => void
+): { before: CompareEntry[]; after: CompareEntry[] } {
+  const waiting = new Map<string, CompareEntry[]>();
+  for (const entry of after) {
+    const id = identify(entry);
+    if (id === null) continue;
+    waiting.set(id, [...(waiting.get(id) || []), entry]);
+  }
+  const paired = new Set<CompareEntry>();
+  const unpaired = before.filter((entry) => {
+    const id = identify(entry);
+    const match = id === null ? undefined : waiting.get(id)?.shift();
+    if (!match) return true;
+    paired.add(match);
+    pair(entry, match);
+    return false;
+  });
+  return { before: unpaired, after: after.filter((e) => !paired.has(e)) };
+}
+
+// What changed from one input to another. Entries are matched by identical
+// settings first, then by name, then by protocol and server, then by
+// protocol and credential, so a renamed server, a rotated key and a moved
+// server each show up as one changed entry rather than a removal and an
+// addition.
+export function compareInputs(
+  before: string | ConfigInput[],
+  after: string | ConfigInput[]
+): Comparison {
+  const left = readEntries(before);
+  const right = readEntries(after);
+  const changed: ChangedEndpoint[] = [];
+  let unchanged = 0;
+
+  const field = (entry: CompareEntry, ...names: string[]) =>
+    names.every((name) => entry.fields[name])
+      ? names.map((name) => entry.fields[name]).join("\n")
+      : null;
+  const credentialOf = (entry: CompareEntry) =>
+    field(entry, "protocol", "id") ??
+    field(entry, "protocol", "password") ??
+    field(entry, "protocol", "publicKey");
+  // One UUID or password is often shared by every server, and then it says
+  // nothing about which server became which
+  const uses = new Map<string, number>();
+  for (const entry of [...left.entries, ...right.entries]) {
+    const id = credentialOf(entry);
+    if (id !== null) uses.set(id, (uses.get(id) || 0) + 1);
+  }
+  const credential = (entry: CompareEntry) => {
+    const id = credentialOf(entry);
+    return id !== null && uses.get(id) === 2 ? id : null;
+  };
+
+  let rest = { before: left.entries, after: right.entries };
+  const passes: Array<(entry: CompareEntry) => string | null> = [
+    (entry) => entry.key,
+    (entry) => entry.name,
+    (entry) => field(entry, "protocol", "address", "port"),
+    credential,
+  ];
+  for (const identify of passes) {
+    rest = pairUp(rest.before, rest.after, identify, (b, a) => {
+      const changes = diffEntries(b, a);
+      if (changes.length === 0) unchanged++;
+      else changed.push({ before: b, after: a, changes });
+    });
+  }
+
+  return {
+    added: rest.after,
+    removed: rest.before,
+    changed,
+    unchanged,
+    duplicates: {
+      before: countDuplicates(left.entries),
+      after: countDuplicates(right.entries),
+    },
+    errors: [
+      ...left.errors.map((e) => `Before: ${e}`),
+      ...right.errors.map((e) => `After: ${e}`),
+    ],
+  };
+}
+
+// Identity of a whole config: the endpoints of all its proxies, in order
+function configKey(config: XrayConfig): string {
+  return collectProxies(config, "").proxies.map(proxyKey).join("\n");
+}
+
+// Drops entries that repeat an earlier one but for the name or the order of
+// their parameters. A link list or subscription keeps its first link per
+// endpoint and comes back as a plain link list under its header lines. JSON keeps its first config
+// per set of endpoints and comes back reformatted; outbounds inside a config
+// are left alone, since its routing may refer to them. Throws on text that
+// is neither.
+export function dedupeInput(text: string): {
+  text: string;
+  removed: string[];
+} {
+  const seen = new Set<string>();
+  const removed: string[] = [];
+  const subscription = readSubscription(text);
+  if (subscription) {
+    const kept = subscription.links.filter((link) => {
+      let config: XrayConfig;
+      try {
+        config = parseLink(link);
+      } catch {
+        // Not ours to judge; the converters report it
+        return true;
+      }
+      const key = configKey(config);
+      if (!seen.has(key)) {
+        seen.add(key);
+        return true;
+      }
+      removed.push(config.remarks || link);
+      return false;
+    });
+    if (removed.length === 0) return { text, removed };
+    return { text: [...subscription.headers, ...kept].join("\n"), removed };
+  }
+
+  const configs = readConfigs(text);
+  const kept = configs.filter((config, i) => {
+    const key = configKey(config);
+    if (!key || !seen.has(key)) {
+      seen.add(key);
+      return true;
+    }
+    removed.push(config.remarks || `Config #${i + 1}`);
+    return false;
+  });
+  if (removed.length === 0) return { text, removed };
+  const single = kept.length === 1 && !text.trim().startsWith("[");
+  return {
+    text: JSON.stringify(single ? kept[0] : kept, null, 2),
+    removed,
+  };
+}
@@ -0,0 +1,193 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { activeParams, draftFromText, isEditable, renderDraft } from "./editor";
+
+const golden: Record<string, string> = JSON.parse(
+  readFileSync(
+    new URL("./__fixtures__/links.golden.json", import.meta.url),
+    "utf8"
+  )
+);
+
+const UUID = "b831381d-6324-4d53-ad4f-8cda48b30811";
+const PUBLIC_KEY = "Z84J2IelR9ch3k8VtlVhhs5ycBUlXA7wHBWcBrjqnAw";
+const REALITY = `vless://${UUID}@srv.example:443?type=tcp&security=reality&sni=sni.example&fp=chrome&pbk=${PUBLIC_KEY}&sid=6ba8#r`;
+
+describe("link editor", () => {
+  // An untouched draft must give back exactly what the converter wrote
+  for (const [name, link] of Object.entries(golden)) {
+    if (!/^(vless|vmess|trojan|ss):/.test(link)) continue;
+    it(`round-trips ${name}`, () => {
+      const { link: rendered, issues } = renderDraft(draftFromText(link));
+      expect(rendered).toBe(link);
+      expect(issues.filter((i) => i.severity === "error")).toEqual([]);
+    });
+  }
+
+  it("shows only the parameters the network and security use", () => {
+    const draft = draftFromText(REALITY);
+    expect(activeParams(draft)).toContain("pbk");
+    expect(activeParams(draft)).not.toContain("path");
+    draft.params.type = "ws";
+    draft.params.security = "tls";
+    expect(activeParams(draft)).toContain("path");
+    expect(activeParams(draft)).not.toContain("pbk");
+  });
+
+  it("drops parameters a new network ignores from the link", () => {
+    const draft = draftFromText(REALITY);
+    draft.params.security = "tls";
+    const { link } = renderDraft(draft);
+    expect(link).not.toContain("pbk=");
+    expect(link).toContain("security=tls");
+  });
+
+  it("ties each problem to the field that caused it", () => {
+    const draft = draftFromText(REALITY);
+    draft.port = "70000";
+    draft.params.fp = "chrom";
+    draft.params.pbk = "short";
+    draft.params.sid = "xyz";
+    draft.flow = "xtls-rprx-vision";
+    draft.params.type = "ws";
+    const { issues, link } = renderDraft(draft);
+    expect(
+      issues.filter((i) => i.severity === "error").map((i) => i.field)
+    ).toEqual(["fp", "pbk", "port", "flow", "sid"]);
+    // Still rendered, so the user sees what they are editing
+    expect(link).toMatch(/^vless:\/\//);
+  });
+
+  it("reads a JSON config as well as a link", () => {
+    const draft = draftFromText(
+      JSON.stringify({
+        remarks: "json",
+        outbounds: [
+          { protocol: "freedom", tag: "direct" },
+          {
+            protocol: "trojan",
+            settings: {
+              servers: [{ address: "h.example", port: 443, password: "pw" }],
+            },
+            streamSettings: { security: "tls" },
+          },
+        ],
+      })
+    );
+    expect(draft).toMatchObject({
+      protocol: "trojan",
+      remarks: "json",
+      credential: "pw",
+      params: { security: "tls" },
+    });
+  });
+
+  it("keeps the VLESS encryption and the Shadowsocks plugin", () => {
+    const vless = `vless://${UUID}@srv.example:443?encryption=mlkem768x25519plus.native.0rtt.key&type=tcp&security=none#v`;
+    expect(renderDraft(draftFromText(vless)).link).toBe(vless);
+
+    const ss =
+      "ss://YWVzLTEyOC1nY206cHc@srv.example:8388/?plugin=obfs-local%3Bobfs%3Dtls#s";
+    const draft = draftFromText(ss);
+    expect(draft.plugin).toBe("obfs-local;obfs=tls");
+    expect(renderDraft(draft).link).toBe(ss);
+  });
+
+  it("takes ss as Shadowsocks", () => {
+    expect(isEditable("ss")).toBe(true);
+    expect(isEditable("hysteria2")).toBe(false);
+    const draft = draftFromText(
+      JSON.stringify({
+        protocol: "ss",
+        settings: {
+          servers: [
+            {
+              address: "h.example",
+              port: 8388,
+              method: "aes-128-gcm",
+              password: "pw",
+            },
+          ],
+        },
+      })
+    );
+    expect(draft.protocol).toBe("shadowsocks");
+    expect(renderDraft(draft).link).toMatch(/^ss:\/\//);
+  });
+
+  it("keeps rendering when the xhttp extra is broken", () => {
+    const draft = draftFromText(
+      `vless://${UUID}@srv.example:443?type=xhttp&security=none&path=%2Fx#x`
+    );
+    draft.params.extra = "{";
+    const { issues, link } = renderDraft(draft);
+    expect(issues.map((i) => i.field)).toEqual(["extra"]);
+    expect(link).toContain("path=%2Fx");
+  });
+
+  it("keeps mux and the fragment dialer", () => {
+    const link = `trojan://pw@srv.example:443?type=tcp&security=tls&sni=srv.example&mux=1&mux_concurrency=8&fragment=100-200%2C10-20%2Ctlshello#t`;
+    const { link: rendered, config } = renderDraft(draftFromText(link));
+    expect(rendered).toBe(link);
+    expect(config!.outbounds![0]).toMatchObject({
+      mux: { enabled: true, concurrency: 8 },
+      streamSettings: { sockopt: { dialerProxy: "fragment" } },
+    });
+    expect(config!.outbounds![1]).toMatchObject({
+      protocol: "freedom",
+      tag: "fragment",
+      settings: {
+        fragment: { packets: "tlshello", length: "100-200", interval: "10-20" },
+      },
+    });
+  });
+
+  it("keeps the SS-2022 user key", () => {
+    const draft = draftFromText(
+      JSON.stringify({
+        protocol: "shadowsocks",
+        settings: {
+          servers: [
+            {
+              address: "h.example",
+              port: 8388,
+              method: "2022-blake3-aes-128-gcm",
+              password: "c2VydmVyLWtleS0xNmJ5dA==",
+              users: [{ password: "dXNlci1rZXktMTZieXRlcw==" }],
+            },
+          ],
+        },
+      })
+    );
+    expect(draft.credential).toBe(
+      "c2VydmVyLWtleS0xNmJ5dA==:dXNlci1rZXktMTZieXRlcw=="
+    );
+    expect(renderDraft(draft).link).toContain(
+      encodeURIComponent("c2VydmVyLWtleS0xNmJ5dA==:dXNlci1rZXktMTZieXRlcw==")
+    );
+  });
+
+  it("warns about each setting it cannot hold", () => {
+    const draft = draftFromText(
+      JSON.stringify({
+        protocol: "trojan",
+        settings: {
+          servers: [{ address: "h.example", port: 443, password: "pw" }],
+        },
+        streamSettings: {
+          security: "tls",
+          tlsSettings: { serverName: "h.example" },
+          sockopt: { tcpFastOpen: true, mark: 255 },
+        },
+      })
+    );
+    expect(
+      renderDraft(draft)
+        .issues.filter((i) => i.severity === "warning")
+        .map((i) => i.message)
+    ).toEqual([
+      "loses sockopt.tcpFastOpen true: the editor cannot hold it",
+      "loses sockopt.mark 255: the editor cannot hold it",
+    ]);
+  });
+});
@@ -0,0 +1,359 @@
+import { base64ToBytes } from "../utils/base64";
+import { parseJsonc } from "./jsonc";
+import { findExtras, type Dialer } from "./extras";
+import { extraParams, linkWithExtras } from "./links";
+import { collectProxies } from "./outbounds";
+import { buildStreamSettings, parseLink, readLinkExtras } from "./parseLink";
+import { formatSsPlugin, resolveSsPlugin } from "./shadowsocks";
+import {
+  extractStreamParams,
+  STREAM_PARAMS,
+  streamParamField,
+  streamParamIgnored,
+  UTLS_FINGERPRINTS,
+} from "./stream";
+import type { Outbound, XrayConfig } from "./types";
+import { validateOutbound } from "./validate";
+
+export const EDITABLE_PROTOCOLS = ["vless", "vmess", "trojan", "shadowsocks"];
+
+// Other names of the editable protocols, as outbounds or link schemes
+const PROTOCOL_ALIASES: Record<string, string> = { ss: "shadowsocks" };
+
+// Whether the editor covers an outbound protocol or a link scheme
+export function isEditable(protocol: string): boolean {
+  return EDITABLE_PROTOCOLS.includes(PROTOCOL_ALIASES[protocol] || protocol);
+}
+
+// One proxy as the link editor's form holds it. Stream settings are kept as
+// the link parameters extractStreamParams writes and parseLink reads, so the
+// editor and the converters share one model.
+export interface LinkDraft {
+  protocol: string;
+  remarks: string;
+  address: string;
+  port: string;
+  // UUID for VLESS and VMess, password for Trojan and Shadowsocks
+  credential: string;
+  // VLESS flow
+  flow: string;
+  // VLESS encryption; "none" unless the server enabled it
+  encryption: string;
+  // VMess cipher or Shadowsocks method
+  method: string;
+  // Shadowsocks SIP003 plugin as the plugin= query holds it, e.g.
+  // v2ray-plugin;mode=websocket;tls
+  plugin: string;
+  // Stream parameters keyed as in STREAM_PARAMS
+  params: Record<string, string>;
+  // Mux and the fragment dialer as the link query carries them: mux,
+  // mux_concurrency and fragment
+  extras: Record<string, string>;
+  // Labels of the loaded settings the draft cannot hold, e.g. sockopt fields
+  // or a chain through another proxy
+  dropped: string[];
+}
+
+export interface DraftIssue {
+  // A LinkDraft field or a stream parameter key; absent for the whole draft
+  field?: string;
+  message: string;
+  severity: "error" | "warning";
+}
+
+export interface RenderedDraft {
+  link?: string;
+  config?: XrayConfig;
+  issues: DraftIssue[];
+}
+
+type Obj = Record<string, unknown>;
+
+export function draftFromOutbound(
+  outbound: Outbound,
+  remarks: string,
+  dialer?: Dialer
+): LinkDraft {
+  if (!isEditable(outbound.protocol)) {
+    throw new Error(
+      `"${outbound.protocol}" cannot be edited; the editor covers ${EDITABLE_PROTOCOLS.join(", ")}`
+    );
+  }
+  const protocol = PROTOCOL_ALIASES[outbound.protocol] || outbound.protocol;
+  const settings = (outbound.settings || {}) as Obj;
+  const { params: extras, carried } = extraParams(outbound, dialer);
+  const draft: LinkDraft = {
+    protocol,
+    remarks,
+    address: "",
+    port: "",
+    credential: "",
+    flow: "",
+    encryption: "",
+    method: "",
+    plugin: "",
+    params:
+      protocol === "shadowsocks"
+        ? {}
+        : extractStreamParams(outbound.streamSettings || {}),
+    extras,
+    dropped: findExtras(outbound, dialer)
+      .filter((extra) => !carried.includes(extra.key))
+      .map((extra) => extra.label),
+  };
+  if (protocol === "vless" || protocol === "vmess") {
+    const server = ((settings.vnext as Obj[]) || [])[0] || {};
+    const user = ((server.users as Obj[]) || [])[0] || {};
+    draft.address = String(server.address ?? "");
+    draft.port = String(server.port ?? "");
+    draft.credential = String(user.id ?? "");
+    draft.flow = String(user.flow ?? "");
+    if (protocol === "vless") {
+      draft.encryption = String(user.encryption || "none");
+    } else {
+      draft.method = String(user.security || "auto");
+    }
+  } else {
+    const server = ((settings.servers as Obj[]) || [])[0] || {};
+    draft.address = String(server.address ?? "");
+    draft.port = String(server.port ?? "");
+    draft.credential = String(server.password ?? "");
+    draft.method = String(server.method ?? "");
+    if (protocol === "shadowsocks") {
+      // An SS-2022 user sends the server key and its own joined with ":",
+      // as the link does
+      const users = server.users as Obj[] | undefined;
+      if (Array.isArray(users) && users.length > 0) {
+        draft.credential += `:${String(users[0].password ?? "")}`;
+      }
+      // The plugin the link writes, whether it came as one or as the stream
+      // parseLink turns v2ray-plugin and obfs-local into
+      const plugin = resolveSsPlugin(server, outbound.streamSettings);
+      draft.plugin = plugin ? formatSsPlugin(plugin) : "";
+    }
+  }
+  return draft;
+}
+
+// A share link, or JSON holding a config or a single outbound. For a config,
+// its first proxy outbound is taken.
+export function draftFromText(text: string): LinkDraft {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) {
+    const config = parseLink(trimmed);
+    const [outbound, ...others] = config.outbounds!;
+    // The freedom outbound a fragment parameter became
+    const tag = outbound.streamSettings?.sockopt?.dialerProxy;
+    const dialer =
+      typeof tag === "string" && tag
+        ? { tag, outbound: others.find((ob) => ob.tag === tag) }
+        : undefined;
+    return draftFromOutbound(outbound, config.remarks || "", dialer);
+  }
+  const parsed = parseJsonc(trimmed);
+  const config = (Array.isArray(parsed) ? parsed[0] : parsed) as XrayConfig;
+  if (config && typeof config.protocol === "string") {
+    return draftFromOutbound(config as unknown as Outbound, "");
+  }
+  const { proxies } = collectProxies(config, "");
+  if (proxies.length === 0) throw new Error("no proxy outbound to edit");
+  const [{ outbound, dialer }] = proxies;
+  return draftFromOutbound(outbound, config.remarks || "", dialer);
+}
+
+// Stream parameters that take effect with the draft's network and security,
+// in STREAM_PARAMS order
+export function activeParams(draft: LinkDraft): string[] {
+  if (draft.protocol === "shadowsocks") return [];
+  const { type = "tcp", security = "none", headerType = "none" } = draft.params;
+  return Object.keys(STREAM_PARAMS).filter(
+    (param) => !streamParamIgnored(param, type, security, headerType)
+  );
+}
+
+// Builds the outbound the draft describes, leaving out parameters the chosen
+// network or security ignores
+export function outboundFromDraft(draft: LinkDraft): Outbound {
+  const port = /^\d+$/.test(draft.port) ? Number(draft.port) : draft.port;
+  const params = Object.fromEntries(
+    activeParams(draft)
+      .filter((param) => draft.params[param])
+      .map((param) => [param, draft.params[param]])
+  );
+  const streamSettings =
+    draft.protocol === "shadowsocks" ? undefined : buildStreamSettings(params);
+
+  switch (draft.protocol) {
+    case "vless":
+    case "vmess": {
+      const user: Obj = { id: draft.credential };
+      if (draft.protocol === "vless") {
+        user.encryption = draft.encryption || "none";
+        if (draft.flow) user.flow = draft.flow;
+      } else {
+        user.alterId = 0;
+        user.security = draft.method || "auto";
+      }
+      return {
+        protocol: draft.protocol,
+        tag: "proxy",
+        settings: { vnext: [{ address: draft.address, port, users: [user] }] },
+        streamSettings,
+      };
+    }
+    case "trojan":
+      return {
+        protocol: "trojan",
+        tag: "proxy",
+        settings: {
+          servers: [
+            { address: draft.address, port, password: draft.credential },
+          ],
+        },
+        streamSettings,
+      };
+    default: {
+      const server: Obj = {
+        address: draft.address,
+        port,
+        method: draft.method,
+        password: draft.credential,
+      };
+      const semi = draft.plugin.indexOf(";");
+      if (semi !== -1) {
+        server.plugin = draft.plugin.slice(0, semi);
+        server.pluginOpts = draft.plugin.slice(semi + 1);
+      } else if (draft.plugin) {
+        server.plugin = draft.plugin;
+      }
+      return {
+        protocol: "shadowsocks",
+        tag: "proxy",
+        settings: { servers: [server] },
+      };
+    }
+  }
+}
+
+// Draft field a validator path points at, e.g. settings.vnext[0].port → port
+function draftField(path: string, draft: LinkDraft): string | undefined {
+  const endpoint = path.match(
+    /\.(address|port|id|password|flow|security|method)$/
+  );
+  if (path.startsWith("settings") && endpoint) {
+    const key = endpoint[1];
+    if (key === "id" || key === "password") return "credential";
+    if (key === "security") return "method";
+    return key;
+  }
+  if (!path.startsWith("streamSettings")) return undefined;
+  if (path === "streamSettings.realitySettings") return "pbk";
+  const { type = "tcp", security = "none" } = draft.params;
+  return activeParams(draft).find(
+    (param) => streamParamField(param, type, security) === path
+  );
+}
+
+// Checks the validator cannot make, since it only sees the built outbound
+function checkParams(draft: LinkDraft): DraftIssue[] {
+  const issues: DraftIssue[] = [];
+  const active = activeParams(draft);
+  const { fp, pbk } = draft.params;
+  if (active.includes("fp") && fp && !UTLS_FINGERPRINTS.includes(fp)) {
+    issues.push({
+      field: "fp",
+      severity: "error",
+      message: `unknown uTLS fingerprint "${fp}"`,
+    });
+  }
+  if (active.includes("pbk") && pbk) {
+    let length = 0;
+    try {
+      length = base64ToBytes(pbk).length;
+    } catch {
+      // Reported below like any other wrong length
+    }
+    if (length !== 32) {
+      issues.push({
+        field: "pbk",
+        severity: "error",
+        message: "not a 32-byte x25519 key in base64url",
+      });
+    }
+  }
+  if (active.includes("extra") && draft.params.extra) {
+    try {
+      JSON.parse(draft.params.extra);
+    } catch {
+      issues.push({
+        field: "extra",
+        severity: "error",
+        message: "not valid JSON",
+      });
+    }
+  }
+  return issues;
+}
+
+// Validates the draft field by field and regenerates its link and config
+// through the same code the converters use. Errors in the draft still give a
+// link where the converter can write one, so the form never goes blank.
+export function renderDraft(draft: LinkDraft): RenderedDraft {
+  const issues = checkParams(draft);
+  const flagged = new Set(issues.map((issue) => issue.field));
+
+  // Leave broken JSON out so the rest still renders
+  const buildable = flagged.has("extra")
+    ? { ...draft, params: { ...draft.params, extra: "" } }
+    : draft;
+  let outbound: Outbound;
+  try {
+    outbound = outboundFromDraft(buildable);
+  } catch (e) {
+    issues.push({
+      severity: "error",
+      message: e instanceof Error ? e.message : String(e),
+    });
+    return { issues };
+  }
+  const dialers = readLinkExtras(outbound, draft.extras);
+  const dialer = dialers[0] && { tag: "fragment", outbound: dialers[0] };
+
+  for (const d of validateOutbound(outbound, "outbound")) {
+    const path = d.path.replace(/^outbound\.?/, "");
+    const field = draftField(path, draft);
+    if (field && flagged.has(field)) continue;
+    issues.push({ field, severity: d.severity, message: d.message });
+  }
+  for (const label of draft.dropped) {
+    issues.push({
+      severity: "warning",
+      message: `loses ${label}: the editor cannot hold it`,
+    });
+  }
+
+  const config: XrayConfig = {
+    remarks: draft.remarks || undefined,
+    outbounds: [
+      outbound,
+      ...dialers,
+      { protocol: "freedom", tag: "direct" },
+      { protocol: "blackhole", tag: "block" },
+    ],
+  };
+  try {
+    const link = linkWithExtras(
+      outbound,
+      draft.remarks,
+      (message) => issues.push({ severity: "warning", message }),
+      dialer
+    );
+    return { link, config, issues };
+  } catch (e) {
+    issues.push({
+      severity: "error",
+      message: e instanceof Error ? e.message : String(e),
+    });
+    return { config, issues };
+  }
+}
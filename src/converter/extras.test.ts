@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { convertToClash } from "./clash";
+import { toLinks } from "./links";
+import { parseLink } from "./parseLink";
+import { convertToSingBox } from "./singbox";
+import type { Outbound } from "./types";
+import { validateConfig } from "./validate";
+
+function trojan(tag: string, address: string, extra: Partial<Outbound> = {}) {
+  return {
+    protocol: "trojan",
+    tag,
+    settings: { servers: [{ address, port: 443, password: "pw" }] },
+    ...extra,
+    streamSettings: {
+      security: "tls",
+      tlsSettings: { serverName: address },
+      ...extra.streamSettings,
+    },
+  };
+}
+
+// The exit is listed first and dials through the hop listed after it
+const CHAIN = JSON.stringify({
+  remarks: "chain",
+  outbounds: [
+    trojan("exit", "exit.example", {
+      mux: { enabled: true, concurrency: 8 },
+      streamSettings: {
+        sockopt: { dialerProxy: "hop", tcpFastOpen: true, mark: 255 },
+      },
+    }),
+    trojan("hop", "hop.example"),
+  ],
+});
+
+const FRAGMENTED = JSON.stringify({
+  remarks: "frag",
+  outbounds: [
+    trojan("proxy", "srv.example", {
+      streamSettings: { sockopt: { dialerProxy: "fragment" } },
+    }),
+    {
+      protocol: "freedom",
+      tag: "fragment",
+      settings: {
+        fragment: { packets: "tlshello", length: "100-200", interval: "10" },
+      },
+    },
+  ],
+});
+
+describe("extras", () => {
+  it("carries sockopt and the chain into Clash", () => {
+    const result = convertToClash(CHAIN);
+    expect(result.errors).toEqual([]);
+    expect(result.yaml).toContain('dialer-proxy: "chain [hop]"');
+    expect(result.yaml).toContain("tfo: true");
+    expect(result.yaml).toContain("routing-mark: 255");
+    // Xray mux has no counterpart in mihomo
+    expect(result.warnings).toEqual([
+      'Config #1 "chain": "chain [exit]" loses mux (concurrency 8): Clash cannot express it',
+    ]);
+  });
+
+  it("carries the chain into sing-box as a detour", () => {
+    const result = convertToSingBox(CHAIN);
+    const outbounds = JSON.parse(result.json).outbounds;
+    const exit = outbounds.find(
+      (ob: Record<string, unknown>) => ob.tag === "chain [exit]"
+    );
+    expect(exit).toMatchObject({
+      detour: "chain [hop]",
+      tcp_fast_open: true,
+      routing_mark: 255,
+    });
+  });
+
+  it("carries mux into share links and warns about the rest", () => {
+    const result = toLinks(CHAIN);
+    expect(result.links).toHaveLength(2);
+    expect(result.links[0]).toContain("&mux=1&mux_concurrency=8#");
+    expect(result.warnings).toEqual([
+      'Config #1 "chain": "chain [exit]" loses sockopt.tcpFastOpen true, ' +
+        'sockopt.mark 255, dialerProxy through "chain [hop]": share links ' +
+        "cannot express them",
+    ]);
+  });
+
+  it("reports the xudp settings of mux as lost in share links", () => {
+    const config = JSON.parse(CHAIN);
+    config.outbounds[0].mux.xudpConcurrency = 16;
+    config.outbounds[0].mux.xudpProxyUDP443 = "reject";
+    const result = toLinks(JSON.stringify(config));
+    expect(result.links[0]).toContain("&mux=1&mux_concurrency=8#");
+    expect(result.warnings[0]).toContain(
+      "loses mux xudpConcurrency 16, xudpProxyUDP443 reject, sockopt.tcpFastOpen"
+    );
+  });
+
+  it("carries a fragmenting dialer into share links and back", () => {
+    const result = toLinks(FRAGMENTED);
+    expect(result.warnings).toEqual([]);
+    expect(result.links[0]).toContain("&fragment=100-200%2C10%2Ctlshello#");
+
+    const config = parseLink(result.links[0]);
+    expect(config.outbounds![1]).toEqual(JSON.parse(FRAGMENTED).outbounds[1]);
+    expect(toLinks(JSON.stringify(config)).links).toEqual(result.links);
+  });
+
+  it("reports a fragmenting freedom dialer as lost", () => {
+    const result = convertToClash(FRAGMENTED);
+    expect(result.yaml).not.toContain("dialer-proxy");
+    expect(result.warnings).toEqual([
+      'Config #1 "frag": "frag" loses fragment (packets tlshello, length 100-200, ' +
+        'interval 10) from "fragment": Clash cannot express it',
+    ]);
+  });
+
+  it("flags a chain through a missing tag", () => {
+    const config = JSON.parse(CHAIN);
+    config.outbounds.pop();
+    expect(validateConfig(config)).toContainEqual({
+      path: "outbounds[0].streamSettings.sockopt.dialerProxy",
+      message: 'no outbound is tagged "hop"',
+      severity: "warning",
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import type { Outbound } from "./types";
+
+// What sockopt.dialerProxy points at: another proxy of the same config, or a
+// freedom outbound that fragments or pads the traffic on its way out
+export interface Dialer {
+  tag: string;
+  // Missing when no outbound carries the tag
+  outbound?: Outbound;
+  // Name of the dialer proxy in the same export, when it has one
+  name?: string;
+}
+
+// A setting beyond what share links describe, found on one proxy
+export interface ExtraSetting {
+  // mux, mux.xudp, sockopt.<field>, dialerProxy, fragment or noises
+  key: string;
+  label: string;
+}
+
+function describeFields(obj: Record<string, unknown>, keys: string[]) {
+  return keys
+    .filter((key) => obj[key] !== undefined)
+    .map((key) => `${key} ${String(obj[key])}`)
+    .join(", ");
+}
+
+export function findExtras(
+  outbound: Outbound,
+  dialer?: Dialer
+): ExtraSetting[] {
+  const extras: ExtraSetting[] = [];
+
+  const mux = outbound.mux;
+  if (mux?.enabled) {
+    const fields = describeFields(mux, ["concurrency"]);
+    extras.push({ key: "mux", label: fields ? `mux (${fields})` : "mux" });
+    // Links carry mux and its concurrency but not how it handles UDP
+    const xudp = describeFields(mux, ["xudpConcurrency", "xudpProxyUDP443"]);
+    if (xudp) extras.push({ key: "mux.xudp", label: `mux ${xudp}` });
+  }
+
+  const sockopt = outbound.streamSettings?.sockopt;
+  if (sockopt && typeof sockopt === "object") {
+    for (const [key, value] of Object.entries(sockopt)) {
+      if (key === "dialerProxy" || !value) continue;
+      extras.push({
+        key: `sockopt.${key}`,
+        label: `sockopt.${key} ${JSON.stringify(value)}`,
+      });
+    }
+  }
+
+  if (dialer) {
+    const via = dialer.outbound;
+    if (!via) {
+      extras.push({
+        key: "dialerProxy",
+        label: `dialerProxy "${dialer.tag}", which names no outbound`,
+      });
+    } else if (via.protocol === "freedom") {
+      // A plain freedom dialer dials directly, which every client does anyway
+      const settings = via.settings || {};
+      const fragment = settings.fragment as Record<string, unknown> | undefined;
+      if (fragment && typeof fragment === "object") {
+        const fields = describeFields(fragment, [
+          "packets",
+          "length",
+          "interval",
+        ]);
+        extras.push({
+          key: "fragment",
+          label: `fragment (${fields}) from "${dialer.tag}"`,
+        });
+      }
+      if (Array.isArray(settings.noises) && settings.noises.length > 0) {
+        extras.push({
+          key: "noises",
+          label: `${settings.noises.length} noises from "${dialer.tag}"`,
+        });
+      }
+    } else {
+      extras.push({
+        key: "dialerProxy",
+        label: `dialerProxy through "${dialer.name ?? dialer.tag}"`,
+      });
+    }
+  }
+  return extras;
+}
+
+// Warns about every extra the export did not carry, so nobody gets a weaker
+// setup than their config describes without knowing
+export function reportLostExtras(
+  extras: ExtraSetting[],
+  carried: string[],
+  format: string,
+  warn: (msg: string) => void
+) {
+  const lost = extras.filter((extra) => !carried.includes(extra.key));
+  if (lost.length === 0) return;
+  warn(
+    `loses ${lost.map((extra) => extra.label).join(", ")}: ${format} cannot express ${lost.length === 1 ? "it" : "them"}`
+  );
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { readInbounds, realityPublicKey } from "./inbounds";
+import { toLinks } from "./links";
+
+// The RFC 7748 §6.1 key pair in Xray's base64url form
+const PRIVATE_KEY = "dwdtCnMYpX08FsFyUbJmRd9ML4frwJkqsXf7pR25LCo";
+const PUBLIC_KEY = "hSDwCYkwp1R0i33ctD73Wg2_Og0mOBr066SpjqqbTmo";
+
+const SERVER = {
+  inbounds: [
+    { tag: "api", protocol: "dokodemo-door", port: 10085, settings: {} },
+    {
+      tag: "reality",
+      listen: "0.0.0.0",
+      port: 443,
+      protocol: "vless",
+      settings: {
+        decryption: "none",
+        clients: [
+          {
+            id: "b831381d-6324-4d53-ad4f-8cda48b30811",
+            flow: "xtls-rprx-vision",
+            email: "alice",
+          },
+          { id: "9d3f3a2e-0c8b-4b8e-9a57-3d2f1e0a6b7c" },
+        ],
+      },
+      streamSettings: {
+        network: "tcp",
+        security: "reality",
+        realitySettings: {
+          target: "www.example.com:443",
+          serverNames: ["www.example.com"],
+          privateKey: PRIVATE_KEY,
+          shortIds: ["6ba85179e30d4fc2", ""],
+        },
+      },
+    },
+    {
+      tag: "ss",
+      port: "8388",
+      protocol: "shadowsocks",
+      settings: {
+        method: "2022-blake3-aes-128-gcm",
+        password: "c2VydmVyLWtleS0xNmJ5dA==",
+        clients: [{ password: "dXNlci1rZXktMTZieXRlcw==", email: "bob" }],
+      },
+    },
+  ],
+  outbounds: [{ protocol: "freedom" }],
+};
+
+describe("readInbounds", () => {
+  it("derives the REALITY public key", () => {
+    expect(realityPublicKey(PRIVATE_KEY)).toBe(PUBLIC_KEY);
+    expect(() => realityPublicKey("short")).toThrow("32-byte");
+  });
+
+  it("builds one client config per inbound client", () => {
+    const { configs, errors } = readInbounds(SERVER, "203.0.113.7");
+    expect(errors).toEqual([]);
+    expect(configs.map((c) => c.config.remarks)).toEqual([
+      "alice",
+      "reality #2",
+      "bob",
+    ]);
+    const stream = configs[0].config.outbounds![0].streamSettings!;
+    expect(stream.realitySettings).toEqual({
+      serverName: "www.example.com",
+      fingerprint: "chrome",
+      publicKey: PUBLIC_KEY,
+      shortId: "6ba85179e30d4fc2",
+      spiderX: "/",
+    });
+  });
+
+  it("warns about dropped REALITY names and takes the panel's fingerprint", () => {
+    const inbound = SERVER.inbounds[1];
+    const stream = inbound.streamSettings!;
+    const realitySettings = {
+      ...stream.realitySettings,
+      serverNames: ["www.example.com", "cdn.example.com"],
+      settings: { fingerprint: "firefox", spiderX: "/feed" },
+    };
+    const { configs, warnings } = readInbounds(
+      {
+        inbounds: [
+          { ...inbound, streamSettings: { ...stream, realitySettings } },
+        ],
+      },
+      "203.0.113.7"
+    );
+    expect(warnings).toEqual([
+      'inbound "reality" (vless): realitySettings.serverNames has 2 entries; using "www.example.com", dropping "cdn.example.com"',
+      'inbound "reality" (vless): realitySettings.shortIds has 2 entries; using "6ba85179e30d4fc2", dropping ""',
+    ]);
+    const client = configs[0].config.outbounds![0].streamSettings!;
+    expect(client.realitySettings).toMatchObject({
+      fingerprint: "firefox",
+      spiderX: "/feed",
+    });
+  });
+
+  it("reports inbounds without clients", () => {
+    const config = {
+      inbounds: [{ tag: "t", protocol: "trojan", port: 443, settings: {} }],
+    };
+    expect(readInbounds(config, "a.example").errors).toEqual([
+      'inbound "t" (trojan) skipped — no clients',
+    ]);
+  });
+
+  it("reports VLESS inbounds with VLESS Encryption enabled", () => {
+    const config = {
+      inbounds: [
+        {
+          tag: "pq",
+          protocol: "vless",
+          port: 443,
+          settings: {
+            decryption: "mlkem768x25519plus.native.600s.private-key",
+            clients: [{ id: "b831381d-6324-4d53-ad4f-8cda48b30811" }],
+          },
+        },
+      ],
+    };
+    expect(readInbounds(config, "a.example")).toMatchObject({
+      configs: [],
+      errors: [
+        'inbound "pq" (vless) skipped — decryption "mlkem768x25519plus..." needs the client encryption string, which the server config does not hold',
+      ],
+    });
+  });
+
+  it("converts in server mode only", () => {
+    const text = JSON.stringify(SERVER);
+    expect(toLinks(text).errors[0]).toContain("looks like a server config");
+
+    const { links, errors } = toLinks(text, { serverAddress: "203.0.113.7" });
+    expect(errors).toEqual([]);
+    expect(links[0]).toContain("@203.0.113.7:443?");
+    expect(links[0]).toContain(`pbk=${PUBLIC_KEY}`);
+    expect(links[2]).toMatch(
+      /^ss:\/\/2022-blake3-aes-128-gcm:.*@203\.0\.113\.7:8388#bob$/
+    );
+  });
+});
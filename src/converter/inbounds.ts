@@ -0,0 +1,254 @@
+import { base64ToBytes, bytesToBase64Url } from "../utils/base64";
+import { x25519PublicKey } from "../utils/x25519";
+import { isSs2022 } from "./shadowsocks";
+import { firstOf } from "./stream";
+import type { Outbound, StreamSettings, XrayConfig } from "./types";
+
+export const INBOUND_PROTOCOLS = ["vless", "vmess", "trojan", "shadowsocks"];
+
+type Obj = Record<string, unknown>;
+
+// Public key for a REALITY private key, both in the base64url form
+// `xray x25519` prints
+export function realityPublicKey(privateKey: string): string {
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(privateKey);
+  } catch {
+    bytes = new Uint8Array();
+  }
+  if (bytes.length !== 32) {
+    throw new Error("realitySettings.privateKey is not a 32-byte x25519 key");
+  }
+  return bytesToBase64Url(x25519PublicKey(bytes));
+}
+
+// Inbounds may listen on a number, a numeric string or a range list such as
+// "1000-2000,3000"; clients connect to the first port
+function firstPort(port: unknown): number {
+  const match = String(port ?? "").match(/\d+/);
+  if (!match) throw new Error("port is missing");
+  return Number(match[0]);
+}
+
+function compact(obj: Obj): Obj {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, v]) => v !== undefined && v !== "")
+  );
+}
+
+// The client half of a server stream: transport settings carry over, TLS
+// loses its certificates and REALITY swaps the private key for the public one
+function clientStream(
+  stream: StreamSettings | undefined,
+  warn: (msg: string) => void
+): StreamSettings | undefined {
+  if (!stream) return undefined;
+  const { tlsSettings, realitySettings, sockopt: _sockopt, ...client } = stream;
+
+  if (stream.security === "tls") {
+    const tls = tlsSettings || {};
+    client.tlsSettings = compact({
+      serverName: tls.serverName,
+      alpn: tls.alpn,
+      fingerprint: tls.fingerprint,
+    });
+  }
+  if (stream.security === "reality") {
+    const rs = realitySettings || {};
+    if (!rs.privateKey) {
+      throw new Error("realitySettings.privateKey is missing");
+    }
+    // 3x-ui keeps what it puts in client links under settings
+    const panel = (rs.settings || {}) as Obj;
+    client.realitySettings = compact({
+      serverName: firstOf(rs.serverNames, "realitySettings.serverNames", warn),
+      // Clients must send some uTLS fingerprint; chrome is what panels default to
+      fingerprint: rs.fingerprint ?? panel.fingerprint ?? "chrome",
+      publicKey: realityPublicKey(String(rs.privateKey)),
+      shortId: firstOf(rs.shortIds, "realitySettings.shortIds", warn) ?? "",
+      spiderX: rs.spiderX ?? panel.spiderX ?? "/",
+    });
+  }
+  return client;
+}
+
+function clientSettings(
+  inbound: Obj,
+  client: Obj | undefined,
+  address: string,
+  port: number
+): Obj {
+  const settings = (inbound.settings || {}) as Obj;
+  switch (inbound.protocol) {
+    case "vless": {
+      // The client's encryption string carries the public halves of the
+      // keys the server's decryption holds, which cannot be derived here
+      const decryption = String(settings.decryption ?? "none");
+      if (decryption !== "none") {
+        throw new Error(
+          `decryption "${decryption.split(".")[0]}..." needs the client encryption string, which the server config does not hold`
+        );
+      }
+      return {
+        vnext: [
+          {
+            address,
+            port,
+            users: [
+              compact({
+                id: client?.id,
+                flow: client?.flow,
+                encryption: "none",
+                email: client?.email,
+              }),
+            ],
+          },
+        ],
+      };
+    }
+    case "vmess":
+      return {
+        vnext: [
+          {
+            address,
+            port,
+            users: [
+              compact({
+                id: client?.id,
+                alterId: client?.alterId ?? 0,
+                security: "auto",
+                email: client?.email,
+              }),
+            ],
+          },
+        ],
+      };
+    case "trojan":
+      return {
+        servers: [
+          compact({
+            address,
+            port,
+            password: client?.password,
+            email: client?.email,
+          }),
+        ],
+      };
+    default: {
+      const method = String(settings.method ?? "");
+      // SS-2022 clients send the server key and their own, the older
+      // ciphers give every client its own method and password
+      if (client && isSs2022(method)) {
+        return {
+          servers: [
+            {
+              address,
+              port,
+              method,
+              password: settings.password,
+              users: [
+                compact({ password: client.password, email: client.email }),
+              ],
+            },
+          ],
+        };
+      }
+      const source = client || settings;
+      return {
+        servers: [
+          compact({
+            address,
+            port,
+            method: source.method ?? method,
+            password: source.password,
+            email: client?.email,
+          }),
+        ],
+      };
+    }
+  }
+}
+
+function describeInbound(inbound: Obj, index: number): string {
+  const name = inbound.tag ? `"${String(inbound.tag)}"` : `#${index + 1}`;
+  return `inbound ${name} (${String(inbound.protocol || "no protocol")})`;
+}
+
+// One client config per inbound client of a server config, pointed at the
+// public address the server is reached on, since inbounds usually listen on
+// 0.0.0.0
+export function readInbounds(
+  config: XrayConfig,
+  address: string
+): {
+  configs: Array<{ config: XrayConfig; label: string }>;
+  errors: string[];
+  warnings: string[];
+} {
+  const configs: Array<{ config: XrayConfig; label: string }> = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const inbounds = config?.inbounds;
+  if (!Array.isArray(inbounds)) {
+    return { configs, errors: ["no inbounds array to convert"], warnings };
+  }
+
+  inbounds.forEach((inbound: Obj, i) => {
+    if (!inbound || !INBOUND_PROTOCOLS.includes(String(inbound.protocol))) {
+      return;
+    }
+    const described = describeInbound(inbound, i);
+    try {
+      const protocol = String(inbound.protocol);
+      const port = firstPort(inbound.port);
+      const streamSettings = clientStream(
+        inbound.streamSettings as StreamSettings | undefined,
+        (msg) => warnings.push(`${described}: ${msg}`)
+      );
+      const settings = (inbound.settings || {}) as Obj;
+      const clients = Array.isArray(settings.clients)
+        ? (settings.clients as Obj[])
+        : [];
+      if (clients.length === 0 && protocol !== "shadowsocks") {
+        throw new Error("no clients");
+      }
+
+      const base = String(inbound.tag || `${protocol}-${port}`);
+      const entries = clients.length > 0 ? clients : [undefined];
+      entries.forEach((client, j) => {
+        const email = client?.email ? String(client.email) : "";
+        const remarks =
+          email || (entries.length > 1 ? `${base} #${j + 1}` : base);
+        const outbound: Outbound = {
+          protocol,
+          tag: inbound.tag ? String(inbound.tag) : undefined,
+          settings: clientSettings(inbound, client, address, port),
+          streamSettings,
+        };
+        configs.push({
+          config: { remarks, outbounds: [outbound] },
+          label: `${described} › client "${remarks}"`,
+        });
+      });
+    } catch (e) {
+      errors.push(
+        `${described} skipped — ${e instanceof Error ? e.message : String(e)}`
+      );
+    }
+  });
+
+  if (configs.length === 0 && errors.length === 0) {
+    errors.push(`no ${INBOUND_PROTOCOLS.join(", ")} inbound found`);
+  }
+  return { configs, errors, warnings };
+}
+
+// Whether the config serves clients, i.e. has proxy inbounds to read
+export function isServerConfig(config: XrayConfig): boolean {
+  const inbounds = config?.inbounds;
+  return (
+    Array.isArray(inbounds) &&
+    inbounds.some((ib: Obj) => INBOUND_PROTOCOLS.includes(String(ib?.protocol)))
+  );
+}
@@ -0,0 +1,96 @@
+// Public API of the conversion engine, shared by the web app and scripts.
+// Nothing here touches the DOM.
+
+export { convertToClash } from "./clash";
+export {
+  compareInputs,
+  dedupeInput,
+  diffEntries,
+  endpointFields,
+  readEntries,
+  type ChangedEndpoint,
+  type CompareEntry,
+  type Comparison,
+  type FieldChange,
+} from "./compare";
+export {
+  activeParams,
+  draftFromOutbound,
+  draftFromText,
+  EDITABLE_PROTOCOLS,
+  isEditable,
+  outboundFromDraft,
+  renderDraft,
+  type DraftIssue,
+  type LinkDraft,
+  type RenderedDraft,
+} from "./editor";
+export { findExtras, type Dialer, type ExtraSetting } from "./extras";
+export {
+  INBOUND_PROTOCOLS,
+  isServerConfig,
+  readInbounds,
+  realityPublicKey,
+} from "./inbounds";
+export {
+  inspectLink,
+  type InspectedParam,
+  type LinkInspection,
+  type LinkIssue,
+} from "./inspect";
+export { parseJsonc, JsonSyntaxError, type JsonLocation } from "./jsonc";
+export {
+  convertOutbound,
+  linkConverters,
+  toLinks,
+  type LinkConverter,
+} from "./links";
+export {
+  collectProxies,
+  endpointKey,
+  expandOutbound,
+  parseConfig,
+  type ConfigInput,
+  type ConvertOptions,
+  type LoadedConfig,
+  type ProxyEntry,
+} from "./outbounds";
+export { parseLink, parseLinks } from "./parseLink";
+export {
+  countryFlag,
+  parseCountryMap,
+  REMARKS_PLACEHOLDERS,
+  remarksFields,
+  renderRemarks,
+  type CountryMap,
+  type RemarksFields,
+} from "./remarks";
+export {
+  analyzeRouting,
+  type RoutingBalancer,
+  type RoutingGraph,
+  type RoutingNode,
+} from "./routing";
+export { convertToSingBox } from "./singbox";
+export {
+  buildQueryParams,
+  extractStreamParams,
+  STREAM_PARAMS,
+  streamParamField,
+  streamParamIgnored,
+  UTLS_FINGERPRINTS,
+  type StreamParam,
+} from "./stream";
+export {
+  buildSubscription,
+  readSubscription,
+  type SubscriptionFormat,
+  type SubscriptionHeaders,
+} from "./subscription";
+export type { Outbound, StreamSettings, XrayConfig } from "./types";
+export {
+  validateConfig,
+  validateOutbound,
+  type ConfigReport,
+  type Diagnostic,
+} from "./validate";
@@ -0,0 +1,580 @@
+import { decodeBase64 } from "../utils/base64";
+import { parseLink, safeDecode } from "./parseLink";
+import {
+  STREAM_PARAMS,
+  streamParamField,
+  streamParamIgnored,
+  UTLS_FINGERPRINTS,
+} from "./stream";
+import type { XrayConfig } from "./types";
+import { validateOutbound } from "./validate";
+
+export interface InspectedParam {
+  key: string;
+  value: string;
+  // Field of the outbound it sets, e.g. streamSettings.realitySettings.publicKey
+  field?: string;
+  explanation: string;
+  // ignored: known, but has no effect with this security or network
+  status: "ok" | "ignored" | "unknown";
+}
+
+export interface LinkIssue {
+  // The parameter the issue is about, when there is one
+  key?: string;
+  message: string;
+  severity: "error" | "warning";
+}
+
+export interface LinkInspection {
+  protocol: string;
+  // The VMess JSON or the Shadowsocks user info, decoded
+  decoded?: string;
+  params: InspectedParam[];
+  issues: LinkIssue[];
+  // The config the converter reads from the link
+  config?: XrayConfig;
+}
+
+interface Entry {
+  key: string;
+  value: string;
+  // Stream parameter the entry stands for, when its key differs (VMess JSON)
+  param?: string;
+  field?: string;
+  explanation?: string;
+}
+
+// Schemes whose query carries the Xray stream parameters of STREAM_PARAMS;
+// the others only know the parameters listed for them in PROTOCOL_PARAMS
+const STREAM_SCHEMES = ["vless", "vmess", "trojan", "ss"];
+const SCHEMES = [
+  ...STREAM_SCHEMES,
+  "hysteria2",
+  "hy2",
+  "tuic",
+  "wireguard",
+  "socks",
+  "http",
+  "https",
+];
+
+// Aliases sharing a parameter table
+const SCHEME_ALIASES: Record<string, string> = {
+  hy2: "hysteria2",
+  https: "http",
+};
+
+const QUIC_TLS = {
+  sni: {
+    field: "streamSettings.tlsSettings.serverName",
+    explanation: STREAM_PARAMS.sni.explanation,
+  },
+  alpn: {
+    field: "streamSettings.tlsSettings.alpn",
+    explanation: STREAM_PARAMS.alpn.explanation,
+  },
+};
+
+// What toLinks carries of the outbound beyond its stream, in the links that
+// have room for it
+const EXTRA_PARAMS = {
+  mux: {
+    field: "mux.enabled",
+    explanation: "Mux: 1 sends several connections over one to the server",
+  },
+  mux_concurrency: {
+    field: "mux.concurrency",
+    explanation: "Most connections mux puts over one",
+  },
+  fragment: {
+    field: "streamSettings.sockopt.dialerProxy",
+    explanation:
+      "Splits the TLS hello (length,interval,packets) through a freedom outbound",
+  },
+};
+
+// Parameters a protocol reads besides the stream ones
+const PROTOCOL_PARAMS: Record<
+  string,
+  Record<string, { field: string; explanation: string }>
+> = {
+  vless: {
+    ...EXTRA_PARAMS,
+    encryption: {
+      field: "settings.vnext[0].users[0].encryption",
+      explanation: 'VLESS encryption; "none" unless the server enabled it',
+    },
+    flow: {
+      field: "settings.vnext[0].users[0].flow",
+      explanation:
+        "XTLS flow control; xtls-rprx-vision needs tcp with tls or reality",
+    },
+  },
+  trojan: EXTRA_PARAMS,
+  ss: {
+    ...EXTRA_PARAMS,
+    plugin: {
+      field: "settings.servers[0].plugin",
+      explanation: "SIP003 plugin and its options, e.g. v2ray-plugin;tls",
+    },
+    uot: {
+      field: "settings.servers[0].uot",
+      explanation: "UDP over TCP; 1 sends UDP inside the TCP connection",
+    },
+  },
+  hysteria2: {
+    ...QUIC_TLS,
+    insecure: {
+      field: "streamSettings.tlsSettings.allowInsecure",
+      explanation: STREAM_PARAMS.allowInsecure.explanation,
+    },
+    pinSHA256: {
+      field: "streamSettings.tlsSettings.pinnedPeerCertificateChainSha256",
+      explanation: STREAM_PARAMS.pcs.explanation,
+    },
+    obfs: {
+      field: "settings.servers[0].obfs.type",
+      explanation: "Obfuscation hiding the QUIC packets; salamander",
+    },
+    "obfs-password": {
+      field: "settings.servers[0].obfs.password",
+      explanation: "Obfuscation password, shared with the server",
+    },
+  },
+  tuic: {
+    ...QUIC_TLS,
+    allow_insecure: {
+      field: "streamSettings.tlsSettings.allowInsecure",
+      explanation: STREAM_PARAMS.allowInsecure.explanation,
+    },
+    congestion_control: {
+      field: "settings.servers[0].congestionControl",
+      explanation: "Congestion control: cubic, new_reno or bbr",
+    },
+    udp_relay_mode: {
+      field: "settings.servers[0].udpRelayMode",
+      explanation: "How UDP travels: native QUIC datagrams or quic streams",
+    },
+  },
+  wireguard: {
+    publickey: {
+      field: "settings.peers[0].publicKey",
+      explanation: "Public key of the server",
+    },
+    presharedkey: {
+      field: "settings.peers[0].preSharedKey",
+      explanation: "Optional pre-shared key, an extra symmetric layer",
+    },
+    address: {
+      field: "settings.address",
+      explanation: "Addresses of the tunnel interface, in CIDR form",
+    },
+    reserved: {
+      field: "settings.reserved",
+      explanation: "Reserved header bytes; Cloudflare WARP routes by them",
+    },
+    mtu: { field: "settings.mtu", explanation: "MTU of the tunnel interface" },
+    keepalive: {
+      field: "settings.peers[0].keepAlive",
+      explanation: "Seconds between keepalive packets",
+    },
+  },
+};
+
+// v2rayN's VMess JSON keys: the link parameter each stands for, or its own
+// meaning
+const VMESS_KEYS: Record<string, Omit<Entry, "key" | "value">> = {
+  v: { explanation: "Version of the v2rayN link format" },
+  ps: { field: "remarks", explanation: "Name shown in the client" },
+  add: { field: "settings.vnext[0].address", explanation: "Server address" },
+  port: { field: "settings.vnext[0].port", explanation: "Server port" },
+  id: {
+    field: "settings.vnext[0].users[0].id",
+    explanation: "User ID (UUID) the server authenticates",
+  },
+  aid: {
+    field: "settings.vnext[0].users[0].alterId",
+    explanation:
+      "alterId; 0 means AEAD, anything else the legacy MD5 handshake",
+  },
+  scy: {
+    field: "settings.vnext[0].users[0].security",
+    explanation: "Cipher for VMess payloads; auto picks one by CPU",
+  },
+  net: { param: "type" },
+  type: { param: "headerType" },
+  host: { param: "host" },
+  path: { param: "path" },
+  tls: { param: "security" },
+  sni: { param: "sni" },
+  alpn: { param: "alpn" },
+  fp: { param: "fp" },
+};
+
+function splitHostPort(hostPort: string): { host: string; port: string } {
+  const bracketed = hostPort.match(/^\[([^\]]+)\]:?(.*)$/);
+  if (bracketed) return { host: bracketed[1], port: bracketed[2] };
+  const idx = hostPort.lastIndexOf(":");
+  return idx === -1
+    ? { host: hostPort, port: "" }
+    : { host: hostPort.slice(0, idx), port: hostPort.slice(idx + 1) };
+}
+
+// scheme://userinfo@host:port?query#fragment, keeping the query's order and
+// any repeated keys, which parseLink folds together
+function readUrlLink(
+  scheme: string,
+  body: string
+): { userInfo: string; entries: Entry[] } {
+  let rest = body;
+  let remarks: string | undefined;
+  const hashIdx = rest.indexOf("#");
+  if (hashIdx !== -1) {
+    remarks = safeDecode(rest.slice(hashIdx + 1));
+    rest = rest.slice(0, hashIdx);
+  }
+  let query = "";
+  const queryIdx = rest.indexOf("?");
+  if (queryIdx !== -1) {
+    query = rest.slice(queryIdx + 1);
+    rest = rest.slice(0, queryIdx);
+  }
+  rest = rest.replace(/\/$/, "");
+  const atIdx = rest.lastIndexOf("@");
+  const userInfo = atIdx === -1 ? "" : rest.slice(0, atIdx);
+  const { host, port } = splitHostPort(rest.slice(atIdx + 1));
+
+  const settings =
+    scheme === "vless" ? "settings.vnext[0]" : "settings.servers[0]";
+  const hopping = scheme === "hysteria2" && /[-,]/.test(port);
+  const entries: Entry[] = [
+    {
+      key: "address",
+      value: host,
+      field:
+        scheme === "wireguard"
+          ? "settings.peers[0].endpoint"
+          : `${settings}.address`,
+      explanation: "Server address",
+    },
+    {
+      key: "port",
+      value: port,
+      field:
+        scheme === "wireguard"
+          ? "settings.peers[0].endpoint"
+          : `${settings}.${hopping ? "ports" : "port"}`,
+      explanation: hopping
+        ? "Server port range; the client hops between these ports"
+        : "Server port",
+    },
+  ];
+  for (const part of query.split("&")) {
+    if (!part) continue;
+    const eq = part.indexOf("=");
+    entries.push({
+      key: safeDecode(eq === -1 ? part : part.slice(0, eq)),
+      value:
+        eq === -1 ? "" : safeDecode(part.slice(eq + 1).replace(/\+/g, "%20")),
+    });
+  }
+  if (remarks !== undefined) {
+    entries.push({
+      key: "#",
+      value: remarks,
+      field: "remarks",
+      explanation: "Name shown in the client",
+    });
+  }
+  return { userInfo, entries };
+}
+
+function readEntries(
+  scheme: string,
+  link: string
+): { entries: Entry[]; decoded?: string } {
+  let body = link.slice(`${scheme}://`.length);
+
+  if (scheme === "vmess") {
+    let obj: Record<string, unknown>;
+    try {
+      obj = JSON.parse(decodeBase64(body));
+    } catch {
+      throw new Error("payload is not base64-encoded JSON");
+    }
+    const net = String(obj.net || "tcp");
+    const entries = Object.entries(obj).map(([key, raw]) => {
+      const value = typeof raw === "string" ? raw : JSON.stringify(raw);
+      const known = VMESS_KEYS[key];
+      // v2rayN keeps the gRPC service name and the kcp seed in path, and the
+      // gRPC and xhttp modes in type
+      if (net === "grpc" && key === "path") {
+        return { key, value, param: "serviceName" };
+      }
+      if (net === "kcp" && key === "path") {
+        return { key, value, param: "seed" };
+      }
+      if ((net === "grpc" || net === "xhttp") && key === "type") {
+        return { key, value, param: "mode" };
+      }
+      return { key, value, ...known };
+    });
+    return { entries, decoded: JSON.stringify(obj, null, 2) };
+  }
+
+  let decoded: string | undefined;
+  // Legacy Shadowsocks form: ss://base64(method:password@host:port)#remarks
+  if (scheme === "ss" && !body.split("#")[0].includes("@")) {
+    const hashIdx = body.indexOf("#");
+    const encoded = hashIdx === -1 ? body : body.slice(0, hashIdx);
+    const fragment = hashIdx === -1 ? "" : body.slice(hashIdx);
+    decoded = decodeBase64(safeDecode(encoded));
+    body = decoded + fragment;
+  }
+
+  const { userInfo, entries } = readUrlLink(
+    SCHEME_ALIASES[scheme] || scheme,
+    body
+  );
+  const user = safeDecode(userInfo);
+  if (scheme === "hysteria2" || scheme === "hy2") {
+    if (userInfo) {
+      entries.unshift({
+        key: "auth",
+        value: user,
+        field: "settings.servers[0].password",
+        explanation: "Hysteria2 authentication password",
+      });
+    }
+  } else if (scheme === "tuic") {
+    const sep = user.indexOf(":");
+    entries.unshift(
+      {
+        key: "uuid",
+        value: sep === -1 ? user : user.slice(0, sep),
+        field: "settings.servers[0].uuid",
+        explanation: "User ID (UUID) the server authenticates",
+      },
+      {
+        key: "password",
+        value: sep === -1 ? "" : user.slice(sep + 1),
+        field: "settings.servers[0].password",
+        explanation: "TUIC password of this user",
+      }
+    );
+  } else if (scheme === "wireguard") {
+    entries.unshift({
+      key: "privateKey",
+      value: user,
+      field: "settings.secretKey",
+      explanation: "Private key of this client",
+    });
+  } else if (scheme === "socks" || scheme === "http" || scheme === "https") {
+    let credentials = user;
+    if (credentials && !credentials.includes(":")) {
+      try {
+        const decoded = decodeBase64(credentials);
+        if (decoded.includes(":")) credentials = decoded;
+      } catch {
+        // A user name without a password
+      }
+    }
+    if (credentials) {
+      const sep = credentials.indexOf(":");
+      entries.unshift(
+        {
+          key: "user",
+          value: sep === -1 ? credentials : credentials.slice(0, sep),
+          field: "settings.servers[0].users[0].user",
+          explanation: "User name",
+        },
+        {
+          key: "pass",
+          value: sep === -1 ? "" : credentials.slice(sep + 1),
+          field: "settings.servers[0].users[0].pass",
+          explanation: "Password",
+        }
+      );
+    }
+  } else if (scheme === "vless") {
+    entries.unshift({
+      key: "uuid",
+      value: user,
+      field: "settings.vnext[0].users[0].id",
+      explanation: "User ID (UUID) the server authenticates",
+    });
+  } else if (scheme === "trojan") {
+    entries.unshift({
+      key: "password",
+      value: user,
+      field: "settings.servers[0].password",
+      explanation: "Trojan password",
+    });
+  } else {
+    let credentials = user;
+    if (!credentials.includes(":")) {
+      try {
+        credentials = decodeBase64(credentials);
+        if (!decoded) decoded = credentials;
+      } catch {
+        // parseLink reports the broken user info below
+      }
+    }
+    const sep = credentials.indexOf(":");
+    entries.unshift(
+      {
+        key: "method",
+        value: sep === -1 ? credentials : credentials.slice(0, sep),
+        field: "settings.servers[0].method",
+        explanation: "Shadowsocks cipher",
+      },
+      {
+        key: "password",
+        value: sep === -1 ? "" : credentials.slice(sep + 1),
+        field: "settings.servers[0].password",
+        explanation:
+          "Shadowsocks password; 2022 ciphers take base64 keys, server:user for multi-user",
+      }
+    );
+  }
+  return { entries, decoded };
+}
+
+// Decodes a single share link and explains every parameter in it, flagging
+// unknown ones, ones this security or network ignores, and anything the
+// config validator objects to once the link is converted
+export function inspectLink(input: string): LinkInspection {
+  const link = input.trim();
+  const sep = link.indexOf("://");
+  const scheme = sep === -1 ? "" : link.slice(0, sep).toLowerCase();
+  const result: LinkInspection = { protocol: scheme, params: [], issues: [] };
+  if (!SCHEMES.includes(scheme)) {
+    result.issues.push({
+      severity: "error",
+      message: scheme
+        ? `"${scheme}" links are not covered; the inspector reads ${SCHEMES.join(", ")}`
+        : "not a share link (expected scheme://...)",
+    });
+    return result;
+  }
+
+  let read: { entries: Entry[]; decoded?: string };
+  try {
+    read = readEntries(scheme, link);
+  } catch (e) {
+    result.issues.push({
+      severity: "error",
+      message: e instanceof Error ? e.message : String(e),
+    });
+    return result;
+  }
+  result.decoded = read.decoded;
+  const { entries } = read;
+
+  const valueOf = (param: string, fallback: string) => {
+    const entry = entries.find((e) => (e.param ?? e.key) === param);
+    return entry?.value || fallback;
+  };
+  let network = valueOf("type", "tcp");
+  if (network === "splithttp") network = "xhttp";
+  let security = valueOf("security", "none");
+  // VMess leaves tls empty for none
+  if (scheme === "vmess" && security !== "tls" && security !== "reality") {
+    security = "none";
+  }
+  const headerType = valueOf("headerType", "none");
+
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    const { key, value } = entry;
+    if (seen.has(key)) {
+      result.issues.push({
+        key,
+        severity: "warning",
+        message: `"${key}" appears more than once; clients read only one`,
+      });
+    }
+    seen.add(key);
+
+    if (entry.explanation) {
+      const { field, explanation } = entry;
+      result.params.push({ key, value, field, explanation, status: "ok" });
+      continue;
+    }
+    const param = entry.param ?? key;
+    const protocolParam =
+      PROTOCOL_PARAMS[SCHEME_ALIASES[scheme] || scheme]?.[param];
+    if (protocolParam) {
+      result.params.push({ key, value, ...protocolParam, status: "ok" });
+      continue;
+    }
+    const streamParam = STREAM_SCHEMES.includes(scheme)
+      ? STREAM_PARAMS[param]
+      : undefined;
+    if (!streamParam) {
+      result.params.push({
+        key,
+        value,
+        explanation: "Not a parameter Xray links use; clients ignore it",
+        status: "unknown",
+      });
+      result.issues.push({
+        key,
+        severity: "warning",
+        message: `unknown parameter "${key}"`,
+      });
+      continue;
+    }
+
+    // v2rayN writes every key, so empty values and "none" say nothing
+    const reason =
+      value === "" || value === "none"
+        ? null
+        : streamParamIgnored(param, network, security, headerType);
+    result.params.push({
+      key,
+      value,
+      field: streamParamField(param, network, security) || undefined,
+      explanation:
+        entry.param && entry.param !== key
+          ? `${streamParam.explanation} (the link parameter "${param}")`
+          : streamParam.explanation,
+      status: reason ? "ignored" : "ok",
+    });
+    if (reason) {
+      result.issues.push({
+        key,
+        severity: "warning",
+        message: `"${key}" is ignored: it ${reason}`,
+      });
+    }
+    if (param === "fp" && value && !UTLS_FINGERPRINTS.includes(value)) {
+      result.issues.push({
+        key,
+        severity: "error",
+        message: `unknown uTLS fingerprint "${value}" (expected ${UTLS_FINGERPRINTS.join(", ")})`,
+      });
+    }
+  }
+
+  try {
+    result.config = parseLink(link);
+  } catch (e) {
+    result.issues.push({
+      severity: "error",
+      message: e instanceof Error ? e.message : String(e),
+    });
+    return result;
+  }
+  for (const d of validateOutbound(result.config.outbounds![0], "outbound")) {
+    const path = d.path.replace(/^outbound\.?/, "");
+    const param = result.params.find((p) => p.field && path === p.field);
+    result.issues.push({
+      key: param?.key,
+      severity: d.severity,
+      message: `${path || "outbound"}: ${d.message}`,
+    });
+  }
+  return result;
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { JsonSyntaxError, parseJsonc } from "./jsonc";
+
+describe("parseJsonc", () => {
+  it("accepts comments and trailing commas", () => {
+    const text = `{
+      // line comment
+      "a": [1, 2, /* inline */ 3,],
+      "b": "// not a comment",
+    }`;
+    expect(parseJsonc(text)).toEqual({ a: [1, 2, 3], b: "// not a comment" });
+  });
+
+  it("skips a UTF-8 byte order mark", () => {
+    expect(parseJsonc('\uFEFF{ "a": 1 }')).toEqual({ a: 1 });
+  });
+
+  it("reports the line and column of a syntax error", () => {
+    let error: unknown;
+    try {
+      parseJsonc('{\n  "a": 1\n  "b": 2\n}');
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(JsonSyntaxError);
+    expect(error).toMatchObject({ line: 3, column: 3 });
+  });
+});
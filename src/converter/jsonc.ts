@@ -0,0 +1,144 @@
+// JSON with // and /* */ comments and trailing commas, the dialect Xray
+// itself reads. Syntax errors carry the 1-based line and column.
+
+export interface JsonLocation {
+  line: number;
+  column: number;
+}
+
+export class JsonSyntaxError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = "JsonSyntaxError";
+    this.line = line;
+    this.column = column;
+  }
+}
+
+const NUMBER_RE = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+export function parseJsonc(text: string): unknown {
+  // Notepad and some editors save UTF-8 with a byte order mark
+  text = text.replace(/^\uFEFF/, "");
+  let pos = 0;
+
+  const fail = (message: string, at = pos): never => {
+    const before = text.slice(0, at);
+    const line = before.split("\n").length;
+    const column = at - before.lastIndexOf("\n");
+    throw new JsonSyntaxError(message, line, column);
+  };
+
+  const describe = (at: number): string =>
+    at >= text.length ? "end of input" : `"${text[at]}"`;
+
+  const skipSpace = () => {
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (ch === " " || ch === "\t" || ch === "\n" || ch === "\r") {
+        pos++;
+      } else if (text.startsWith("//", pos)) {
+        const end = text.indexOf("\n", pos);
+        pos = end === -1 ? text.length : end;
+      } else if (text.startsWith("/*", pos)) {
+        const end = text.indexOf("*/", pos + 2);
+        if (end === -1) fail("unterminated comment");
+        pos = end + 2;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const parseString = (): string => {
+    const start = pos;
+    pos++;
+    while (pos < text.length && text[pos] !== '"') {
+      if (text[pos] === "\n") fail("unterminated string", start);
+      pos += text[pos] === "\\" ? 2 : 1;
+    }
+    if (pos >= text.length) fail("unterminated string", start);
+    pos++;
+    try {
+      return JSON.parse(text.slice(start, pos)) as string;
+    } catch {
+      return fail("invalid escape or control character in string", start);
+    }
+  };
+
+  const parseValue = (): unknown => {
+    skipSpace();
+    const ch = text[pos];
+
+    if (ch === "{") {
+      pos++;
+      const obj: Record<string, unknown> = {};
+      skipSpace();
+      while (text[pos] !== "}") {
+        if (text[pos] !== '"') fail(`expected a key, got ${describe(pos)}`);
+        const key = parseString();
+        skipSpace();
+        if (text[pos] !== ":") fail(`expected ":", got ${describe(pos)}`);
+        pos++;
+        obj[key] = parseValue();
+        skipSpace();
+        if (text[pos] === ",") {
+          pos++;
+          skipSpace();
+        } else if (text[pos] !== "}") {
+          fail(`expected "," or "}", got ${describe(pos)}`);
+        }
+      }
+      pos++;
+      return obj;
+    }
+
+    if (ch === "[") {
+      pos++;
+      const arr: unknown[] = [];
+      skipSpace();
+      while (text[pos] !== "]") {
+        arr.push(parseValue());
+        skipSpace();
+        if (text[pos] === ",") {
+          pos++;
+          skipSpace();
+        } else if (text[pos] !== "]") {
+          fail(`expected "," or "]", got ${describe(pos)}`);
+        }
+      }
+      pos++;
+      return arr;
+    }
+
+    if (ch === '"') return parseString();
+
+    for (const [word, value] of [
+      ["true", true],
+      ["false", false],
+      ["null", null],
+    ] as const) {
+      if (text.startsWith(word, pos)) {
+        pos += word.length;
+        return value;
+      }
+    }
+
+    NUMBER_RE.lastIndex = pos;
+    const num = NUMBER_RE.exec(text);
+    if (num) {
+      pos += num[0].length;
+      return Number(num[0]);
+    }
+
+    return fail(`unexpected ${describe(pos)}`);
+  };
+
+  const value = parseValue();
+  skipSpace();
+  if (pos < text.length) fail(`unexpected ${describe(pos)} after the value`);
+  return value;
+}
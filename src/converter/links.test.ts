@@ -0,0 +1,502 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parseLink } from "./parseLink";
+import { linkConverters, toLinks } from "./links";
+import { buildSubscription, readSubscription } from "./subscription";
+import type { Outbound, StreamSettings } from "./types";
+
+// Expected links live in __fixtures__/links.golden.json. After an intended
+// change to the output, regenerate it with UPDATE_GOLDEN=1 npm test and
+// review the diff.
+const GOLDEN_URL = new URL("./__fixtures__/links.golden.json", import.meta.url);
+const golden: Record<string, string> = existsSync(GOLDEN_URL)
+  ? JSON.parse(readFileSync(GOLDEN_URL, "utf8"))
+  : {};
+const updated: Record<string, string> = {};
+
+const UUID = "b831381d-6324-4d53-ad4f-8cda48b30811";
+const PUBLIC_KEY = "Z84J2IelR9ch3k8VtlVhhs5ycBUlXA7wHBWcBrjqnAw";
+
+const TRANSPORTS: Record<string, StreamSettings> = {
+  tcp: { network: "tcp" },
+  "tcp-http": {
+    network: "tcp",
+    tcpSettings: {
+      header: {
+        type: "http",
+        request: { path: ["/p"], headers: { Host: ["h.example"] } },
+      },
+    },
+  },
+  ws: { network: "ws", wsSettings: { path: "/ws", host: "h.example" } },
+  grpc: { network: "grpc", grpcSettings: { serviceName: "svc" } },
+  xhttp: {
+    network: "xhttp",
+    xhttpSettings: { path: "/x", host: "h.example", mode: "packet-up" },
+  },
+  httpupgrade: {
+    network: "httpupgrade",
+    httpupgradeSettings: { path: "/u", host: "h.example" },
+  },
+  h2: { network: "h2", httpSettings: { path: "/h2", host: ["h.example"] } },
+  quic: {
+    network: "quic",
+    quicSettings: { security: "none", header: { type: "none" } },
+  },
+  kcp: {
+    network: "kcp",
+    kcpSettings: { seed: "s33d", header: { type: "wechat-video" } },
+  },
+};
+
+const SECURITIES: Record<string, StreamSettings> = {
+  none: { security: "none" },
+  tls: {
+    security: "tls",
+    tlsSettings: {
+      serverName: "sni.example",
+      fingerprint: "chrome",
+      alpn: ["h2", "http/1.1"],
+    },
+  },
+  reality: {
+    security: "reality",
+    realitySettings: {
+      serverName: "sni.example",
+      fingerprint: "chrome",
+      publicKey: PUBLIC_KEY,
+      shortId: "6ba85179e30d4fc2",
+      spiderX: "/",
+    },
+  },
+};
+
+function streamOutbound(
+  protocol: string,
+  transport: string,
+  security: string
+): Outbound {
+  const streamSettings = {
+    ...TRANSPORTS[transport],
+    ...SECURITIES[security],
+  };
+  const address = "srv.example";
+  switch (protocol) {
+    case "vless": {
+      const vision = transport === "tcp" && security !== "none";
+      const user = { id: UUID, encryption: "none" };
+      return {
+        protocol,
+        settings: {
+          vnext: [
+            {
+              address,
+              port: 443,
+              users: [vision ? { ...user, flow: "xtls-rprx-vision" } : user],
+            },
+          ],
+        },
+        streamSettings,
+      };
+    }
+    case "vmess":
+      return {
+        protocol,
+        settings: {
+          vnext: [
+            {
+              address,
+              port: 443,
+              users: [{ id: UUID, alterId: 0, security: "auto" }],
+            },
+          ],
+        },
+        streamSettings,
+      };
+    default:
+      return {
+        protocol,
+        settings: {
+          servers: [{ address, port: 443, password: "p@ss w/+rd" }],
+        },
+        streamSettings,
+      };
+  }
+}
+
+const OTHER_CASES: Record<string, Outbound> = {
+  "shadowsocks/aes-256-gcm": {
+    protocol: "shadowsocks",
+    settings: {
+      servers: [
+        {
+          address: "srv.example",
+          port: 8388,
+          method: "aes-256-gcm",
+          password: "Пароль 🔑 +/",
+        },
+      ],
+    },
+  },
+  "shadowsocks/2022-multi-user": {
+    protocol: "shadowsocks",
+    settings: {
+      servers: [
+        {
+          address: "2001:db8::1",
+          port: 8388,
+          method: "2022-blake3-aes-128-gcm",
+          password: "c2VydmVyLWtleS0xNmJ5dA==",
+          users: [{ password: "dXNlci1rZXktMTZieXRlcw==" }],
+        },
+      ],
+    },
+  },
+  "shadowsocks/obfs-http": {
+    protocol: "shadowsocks",
+    settings: {
+      servers: [
+        {
+          address: "srv.example",
+          port: 80,
+          method: "chacha20-poly1305",
+          password: "pw",
+        },
+      ],
+    },
+    streamSettings: TRANSPORTS["tcp-http"],
+  },
+  "shadowsocks/v2ray-plugin-ws-tls": {
+    protocol: "shadowsocks",
+    settings: {
+      servers: [
+        {
+          address: "srv.example",
+          port: 443,
+          method: "aes-128-gcm",
+          password: "pw",
+        },
+      ],
+    },
+    streamSettings: { ...TRANSPORTS.ws, ...SECURITIES.tls },
+  },
+  "hysteria2/obfs": {
+    protocol: "hysteria2",
+    settings: {
+      address: "srv.example",
+      port: 443,
+      password: "auth",
+      obfs: { type: "salamander", password: "obfs-pw" },
+    },
+    streamSettings: SECURITIES.tls,
+  },
+  tuic: {
+    protocol: "tuic",
+    settings: {
+      address: "srv.example",
+      port: 443,
+      uuid: UUID,
+      password: "pw",
+      congestionControl: "bbr",
+    },
+    streamSettings: SECURITIES.tls,
+  },
+  wireguard: {
+    protocol: "wireguard",
+    settings: {
+      secretKey: "yAnz5TF+lXXJte14tji3zlMNq+hd2rYUIgJBgB3fBmk=",
+      address: ["10.0.0.2/32", "fd00::2/128"],
+      reserved: [1, 2, 3],
+      mtu: 1280,
+      peers: [
+        {
+          endpoint: "srv.example:51820",
+          publicKey: "xTIBA5rboUvnH4htodjb6e697QjLERt1NAB4mZqp8Dg=",
+        },
+      ],
+    },
+  },
+  "socks/user": {
+    protocol: "socks",
+    settings: {
+      servers: [
+        {
+          address: "srv.example",
+          port: 1080,
+          users: [{ user: "me", pass: "p:w" }],
+        },
+      ],
+    },
+  },
+  "trojan/ipv6": {
+    protocol: "trojan",
+    settings: {
+      servers: [{ address: "2001:db8::2", port: 443, password: "pw" }],
+    },
+    streamSettings: SECURITIES.tls,
+  },
+  "http/tls": {
+    protocol: "http",
+    settings: { servers: [{ address: "srv.example", port: 443 }] },
+    streamSettings: SECURITIES.tls,
+  },
+};
+
+function linkFor(name: string, outbound: Outbound): string {
+  const result = toLinks(
+    JSON.stringify({ remarks: name, outbounds: [outbound] })
+  );
+  expect(result.errors).toEqual([]);
+  expect(result.links).toHaveLength(1);
+  return result.links[0];
+}
+
+function checkGolden(name: string, link: string) {
+  updated[name] = link;
+  if (process.env.UPDATE_GOLDEN) return;
+  expect(golden[name], `no golden link for ${name}`).toBeDefined();
+  expect(link).toBe(golden[name]);
+}
+
+describe("golden links", () => {
+  for (const protocol of ["vless", "vmess", "trojan"]) {
+    for (const transport of Object.keys(TRANSPORTS)) {
+      for (const security of Object.keys(SECURITIES)) {
+        // v2rayN's VMess JSON has no REALITY fields; see the test below
+        if (protocol === "vmess" && security === "reality") continue;
+        const name = `${protocol}/${transport}/${security}`;
+        it(name, () => {
+          const outbound = streamOutbound(protocol, transport, security);
+          checkGolden(name, linkFor(name, outbound));
+        });
+      }
+    }
+  }
+
+  for (const [name, outbound] of Object.entries(OTHER_CASES)) {
+    it(name, () => checkGolden(name, linkFor(name, outbound)));
+  }
+
+  it("has no stale fixtures", () => {
+    if (process.env.UPDATE_GOLDEN) {
+      writeFileSync(GOLDEN_URL, `${JSON.stringify(updated, null, 2)}\n`);
+      return;
+    }
+    expect(Object.keys(golden).sort()).toEqual(Object.keys(updated).sort());
+  });
+});
+
+describe("round trip", () => {
+  // Parsing a link and encoding it again must give the same link back
+  for (const protocol of ["vless", "trojan", "vmess"]) {
+    for (const transport of Object.keys(TRANSPORTS)) {
+      for (const security of Object.keys(SECURITIES)) {
+        // VMess links have no REALITY fields
+        if (protocol === "vmess" && security === "reality") continue;
+        const name = `${protocol}/${transport}/${security}`;
+        it(name, () => {
+          const link = linkFor(
+            name,
+            streamOutbound(protocol, transport, security)
+          );
+          const config = parseLink(link);
+          expect(linkFor(name, config.outbounds![0])).toBe(link);
+        });
+      }
+    }
+  }
+
+  for (const [name, outbound] of Object.entries(OTHER_CASES)) {
+    it(name, () => {
+      const link = linkFor(name, outbound);
+      expect(linkFor(name, parseLink(link).outbounds![0])).toBe(link);
+    });
+  }
+
+  it("keeps SIP003 plugin options no stream can hold", () => {
+    const link =
+      "ss://YWVzLTEyOC1nY206cA@a.com:8388/?plugin=v2ray-plugin%3Bmode%3Dwebsocket%3Bpath%3D%2Fx%3Bmux%3D0#R";
+    const outbound = parseLink(link).outbounds![0];
+    expect(outbound.settings!.servers).toMatchObject([
+      { plugin: "v2ray-plugin", pluginOpts: "mode=websocket;path=/x;mux=0" },
+    ]);
+    expect(linkFor("R", outbound)).toBe(link);
+  });
+
+  it("flags Shadowsocks UoT and warns about the version", () => {
+    const outbound = {
+      protocol: "shadowsocks",
+      settings: {
+        servers: [
+          {
+            address: "srv.example",
+            port: 8388,
+            method: "aes-128-gcm",
+            password: "pw",
+            uot: true,
+            UoTVersion: 2,
+          },
+        ],
+      },
+    };
+    const result = toLinks(
+      JSON.stringify({ remarks: "R", outbounds: [outbound] })
+    );
+    expect(result.links[0]).toBe(
+      "ss://YWVzLTEyOC1nY206cHc@srv.example:8388/?uot=1#R"
+    );
+    expect(result.warnings).toEqual([
+      'Config #1 "R": "R" UoT version 2 dropped (links only flag UoT; clients assume 1)',
+    ]);
+    expect(
+      parseLink(result.links[0]).outbounds![0].settings!.servers
+    ).toMatchObject([{ uot: true }]);
+  });
+
+  it("reads a Hysteria2 port range", () => {
+    const config = parseLink("hy2://auth@srv.example:20000-30000/?sni=a#R");
+    expect(config.outbounds![0].settings!.servers).toEqual([
+      { address: "srv.example", ports: "20000-30000", password: "auth" },
+    ]);
+  });
+
+  it("vmess keeps the gRPC multi mode in the v2rayN type", () => {
+    const outbound = streamOutbound("vmess", "grpc", "tls");
+    outbound.streamSettings!.grpcSettings = {
+      serviceName: "svc",
+      multiMode: true,
+    };
+    const link = linkFor("vmess", outbound);
+    expect(JSON.parse(atob(link.slice("vmess://".length)))).toMatchObject({
+      type: "multi",
+      path: "svc",
+    });
+    expect(linkFor("vmess", parseLink(link).outbounds![0])).toBe(link);
+  });
+
+  it("vmess reports what the v2rayN JSON cannot hold", () => {
+    const outbound = streamOutbound("vmess", "xhttp", "tls");
+    outbound.streamSettings!.tlsSettings!.allowInsecure = true;
+    outbound.streamSettings!.xhttpSettings!.extra = { xPaddingBytes: "100" };
+    const result = toLinks(
+      JSON.stringify({ remarks: "x", outbounds: [outbound] })
+    );
+    expect(result.warnings).toEqual([
+      'Config #1 "x": "x" loses allowInsecure, extra: the v2rayN VMess JSON has no field for them',
+    ]);
+  });
+
+  it("vmess keeps the v2rayN fields", () => {
+    const link = linkFor("vmess", streamOutbound("vmess", "ws", "tls"));
+    expect(linkFor("vmess", parseLink(link).outbounds![0])).toBe(link);
+  });
+});
+
+describe("toLinks", () => {
+  it("refuses VMess over REALITY instead of dropping the key", () => {
+    const config = {
+      remarks: "r",
+      outbounds: [streamOutbound("vmess", "tcp", "reality")],
+    };
+    const result = toLinks(JSON.stringify(config));
+    expect(result.links).toEqual([]);
+    expect(result.errors[0]).toContain("cannot carry REALITY");
+  });
+
+  it("splits multi-user outbounds into one link each", () => {
+    const outbound = streamOutbound("vless", "ws", "tls");
+    const server = (
+      outbound.settings!.vnext as Array<Record<string, unknown>>
+    )[0];
+    server.users = [
+      { id: UUID },
+      { id: "9d3f3a2e-0c8b-4b8e-9a57-3d2f1e0a6b7c" },
+    ];
+    const result = toLinks(
+      JSON.stringify({ remarks: "multi", outbounds: [outbound] })
+    );
+    expect(
+      result.links.map((l) => decodeURIComponent(l.split("#")[1]))
+    ).toEqual(["multi [#1 1]", "multi [#1 2]"]);
+  });
+
+  it("names raw and mkcp streams the way links do", () => {
+    const outbound = streamOutbound("vless", "tcp", "none");
+    outbound.streamSettings = {
+      network: "raw",
+      rawSettings: { header: { type: "http" } },
+    };
+    expect(linkFor("vless", outbound)).toContain(
+      "type=tcp&security=none&headerType=http"
+    );
+    outbound.streamSettings = { network: "mkcp", kcpSettings: { seed: "s" } };
+    expect(linkFor("vless", outbound)).toContain(
+      "type=kcp&security=none&seed=s"
+    );
+  });
+
+  it("uses converters registered by protocol", () => {
+    linkConverters.set("custom", (_ob, remarks) => `custom://x#${remarks}`);
+    try {
+      const result = toLinks(
+        JSON.stringify({
+          remarks: "c",
+          outbounds: [{ protocol: "custom", settings: {} }],
+        })
+      );
+      expect(result.links).toEqual(["custom://x#c"]);
+      // Unknown to the validator, which only warns about it
+      expect(result.reports[0].diagnostics[0].severity).toBe("warning");
+    } finally {
+      linkConverters.delete("custom");
+    }
+  });
+});
+
+describe("UTF-8-safe base64", () => {
+  const REMARKS = "Москва 🇷🇺 +/";
+  const PASSWORD = "Пароль 🔑 a+b/c=";
+
+  it("keeps Cyrillic and emoji in VMess remarks", () => {
+    const outbound = streamOutbound("vmess", "ws", "tls");
+    const link = linkFor(REMARKS, outbound);
+    expect(link).toMatch(/^vmess:\/\/[A-Za-z0-9+/=]+$/);
+    expect(parseLink(link).remarks).toBe(REMARKS);
+  });
+
+  it("keeps a Shadowsocks password with Cyrillic, emoji, + and /", () => {
+    const link = linkFor(REMARKS, {
+      protocol: "shadowsocks",
+      settings: {
+        servers: [
+          {
+            address: "srv.example",
+            port: 8388,
+            method: "chacha20-poly1305",
+            password: PASSWORD,
+          },
+        ],
+      },
+    });
+    // SIP002 userinfo is base64url, so + and / never reach the URL
+    expect(link.slice(5, link.indexOf("@"))).toMatch(/^[A-Za-z0-9_-]+$/);
+    const config = parseLink(link);
+    expect(config.remarks).toBe(REMARKS);
+    expect(config.outbounds![0].settings!.servers).toMatchObject([
+      { method: "chacha20-ietf-poly1305", password: PASSWORD },
+    ]);
+  });
+
+  it("round-trips a base64 subscription with a Cyrillic title", () => {
+    const links = [
+      linkFor(REMARKS, streamOutbound("trojan", "tcp", "tls")),
+      linkFor("🔑", streamOutbound("vless", "ws", "tls")),
+    ];
+    const body = buildSubscription(links, "base64", {
+      profileTitle: "Подписка 🚀",
+    });
+    const read = readSubscription(body);
+    expect(read?.encoded).toBe(true);
+    expect(read?.links).toEqual(links);
+  });
+});
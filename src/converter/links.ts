@@ -0,0 +1,426 @@
+import { encodeBase64, encodeBase64Url } from "../utils/base64";
+import { findExtras, reportLostExtras, type Dialer } from "./extras";
+import type { JsonLocation } from "./jsonc";
+import {
+  mapConfigProxies,
+  parseConfig,
+  type ConfigInput,
+  type ConvertOptions,
+} from "./outbounds";
+import {
+  formatSsPlugin,
+  isSs2022,
+  resolveShadowsocks,
+  resolveSsPlugin,
+} from "./shadowsocks";
+import {
+  readHysteria2,
+  readProxyServer,
+  readTuic,
+  readWireguard,
+} from "./servers";
+import { buildQueryParams, extractStreamParams } from "./stream";
+import type { Outbound } from "./types";
+import type { ConfigReport } from "./validate";
+
+function formatHost(address: string): string {
+  return address.includes(":") && !address.startsWith("[")
+    ? `[${address}]`
+    : address;
+}
+
+function convertVless(
+  outbound: Outbound,
+  remarks: string,
+  warn?: (msg: string) => void
+): string | null {
+  const settings = outbound.settings as Record<string, unknown>;
+  if (!settings || !settings.vnext) return null;
+
+  const vnext = settings.vnext as Array<Record<string, unknown>>;
+  if (!vnext || vnext.length === 0) return null;
+
+  const server = vnext[0];
+  const address = String(server.address);
+  const port = String(server.port);
+  const users = server.users as Array<Record<string, unknown>>;
+  if (!users || users.length === 0) return null;
+
+  const user = users[0];
+  const uuid = String(user.id);
+
+  const params: Record<string, string> = {};
+  if (user.encryption) params.encryption = String(user.encryption);
+  if (user.flow) params.flow = String(user.flow);
+
+  if (outbound.streamSettings) {
+    const streamParams = extractStreamParams(outbound.streamSettings, warn);
+    Object.assign(params, streamParams);
+  }
+
+  const query = buildQueryParams(params);
+  const fragment = encodeURIComponent(remarks);
+
+  return `vless://${encodeURIComponent(uuid)}@${formatHost(address)}:${port}?${query}#${fragment}`;
+}
+
+function convertVmess(
+  outbound: Outbound,
+  remarks: string,
+  warn?: (msg: string) => void
+): string | null {
+  const settings = outbound.settings as Record<string, unknown>;
+  if (!settings || !settings.vnext) return null;
+
+  const vnext = settings.vnext as Array<Record<string, unknown>>;
+  if (!vnext || vnext.length === 0) return null;
+
+  const server = vnext[0];
+  const users = server.users as Array<Record<string, unknown>>;
+  if (!users || users.length === 0) return null;
+
+  const user = users[0];
+  const stream = outbound.streamSettings || {};
+  const security = stream.security || "none";
+  // The v2rayN JSON has no fields for the REALITY key or short ID
+  if (security === "reality") {
+    throw new Error("VMess links cannot carry REALITY settings");
+  }
+
+  const streamParams = extractStreamParams(stream, warn);
+  const { type: network } = streamParams;
+  let path = streamParams.path || "";
+  let headerType = streamParams.headerType || "none";
+  // v2rayN reuses path and type: the gRPC service name and multi mode, the
+  // kcp seed, and the xhttp mode
+  const carried = ["type", "security", "headerType", "host", "path"];
+  carried.push("sni", "alpn", "fp");
+  if (network === "grpc") {
+    path = streamParams.serviceName || "";
+    if (streamParams.mode === "multi") headerType = "multi";
+    carried.push("serviceName", "mode");
+  } else if (network === "kcp") {
+    path = streamParams.seed || "";
+    carried.push("seed");
+  } else if (network === "xhttp" && streamParams.mode) {
+    headerType = streamParams.mode;
+    carried.push("mode");
+  }
+  const lost = Object.keys(streamParams).filter(
+    (key) => !carried.includes(key)
+  );
+  if (lost.length > 0) {
+    warn?.(
+      `loses ${lost.join(", ")}: the v2rayN VMess JSON has no field for ${lost.length === 1 ? "it" : "them"}`
+    );
+  }
+
+  // VMess uses base64-encoded JSON (v2rayN format)
+  const vmessObj: Record<string, string | number> = {
+    v: "2",
+    ps: remarks,
+    add: String(server.address),
+    port: Number(server.port),
+    id: String(user.id),
+    aid: Number(user.alterId || 0),
+    scy: String(user.security || "auto"),
+    net: network,
+    type: headerType,
+    host: streamParams.host || "",
+    path: path,
+    tls: security === "tls" ? "tls" : "",
+    sni: streamParams.sni || "",
+    alpn: streamParams.alpn || "",
+    fp: streamParams.fp || "",
+  };
+
+  const jsonStr = JSON.stringify(vmessObj);
+  const b64 = encodeBase64(jsonStr);
+  return `vmess://${b64}`;
+}
+
+function convertTrojan(
+  outbound: Outbound,
+  remarks: string,
+  warn?: (msg: string) => void
+): string | null {
+  const settings = outbound.settings as Record<string, unknown>;
+  if (!settings || !settings.servers) return null;
+
+  const servers = settings.servers as Array<Record<string, unknown>>;
+  if (!servers || servers.length === 0) return null;
+
+  const server = servers[0];
+  const password = String(server.password);
+  const address = String(server.address);
+  const port = String(server.port);
+
+  const params: Record<string, string> = {};
+
+  if (outbound.streamSettings) {
+    const streamParams = extractStreamParams(outbound.streamSettings, warn);
+    Object.assign(params, streamParams);
+  }
+
+  const query = buildQueryParams(params);
+  const fragment = encodeURIComponent(remarks);
+
+  return `trojan://${encodeURIComponent(password)}@${formatHost(address)}:${port}?${query}#${fragment}`;
+}
+
+function convertShadowsocks(
+  outbound: Outbound,
+  remarks: string,
+  warn: (msg: string) => void = () => {}
+): string | null {
+  const settings = outbound.settings as Record<string, unknown>;
+  if (!settings || !settings.servers) return null;
+
+  const servers = settings.servers as Array<Record<string, unknown>>;
+  if (!servers || servers.length === 0) return null;
+
+  const server = servers[0];
+  const { method, password } = resolveShadowsocks(server);
+  const address = String(server.address);
+  const port = String(server.port);
+
+  // SIP002: 2022-blake3 keys go as plain percent-encoded method:password,
+  // other ciphers as unpadded base64url
+  const userInfo = isSs2022(method)
+    ? `${encodeURIComponent(method)}:${encodeURIComponent(password)}`
+    : encodeBase64Url(`${method}:${password}`);
+
+  const params: Record<string, string> = {};
+  const plugin = resolveSsPlugin(server, outbound.streamSettings);
+  if (plugin) params.plugin = formatSsPlugin(plugin);
+  // uot=1 is the flag mihomo and sing-box based clients read; there is no
+  // field for the version
+  if (server.uot) {
+    params.uot = "1";
+    const version = Number(server.UoTVersion || 1);
+    if (version !== 1) {
+      warn(
+        `UoT version ${version} dropped (links only flag UoT; clients assume 1)`
+      );
+    }
+  }
+  const query = plugin || server.uot ? `/?${buildQueryParams(params)}` : "";
+  const fragment = encodeURIComponent(remarks);
+
+  return `ss://${userInfo}@${formatHost(address)}:${port}${query}#${fragment}`;
+}
+
+function convertWireguard(outbound: Outbound, remarks: string): string | null {
+  const wg = readWireguard(outbound);
+
+  const params: Record<string, string> = {};
+  params.publickey = wg.peer.publicKey;
+  if (wg.peer.preSharedKey) params.presharedkey = wg.peer.preSharedKey;
+  if (wg.localAddress.length > 0) params.address = wg.localAddress.join(",");
+  if (wg.reserved) params.reserved = wg.reserved.join(",");
+  if (wg.mtu) params.mtu = String(wg.mtu);
+  if (wg.peer.keepAlive) params.keepalive = String(wg.peer.keepAlive);
+
+  const secretKey = encodeURIComponent(wg.secretKey);
+  const query = buildQueryParams(params);
+  const fragment = encodeURIComponent(remarks);
+
+  return `wireguard://${secretKey}@${formatHost(wg.peer.address)}:${wg.peer.port}?${query}#${fragment}`;
+}
+
+// socks:// and http:// carry the credentials as plain user:pass userinfo
+function convertSocksOrHttp(
+  outbound: Outbound,
+  remarks: string
+): string | null {
+  const server = readProxyServer(outbound);
+
+  let userInfo = "";
+  if (server.user) {
+    userInfo = encodeURIComponent(server.user);
+    if (server.pass) userInfo += `:${encodeURIComponent(server.pass)}`;
+    userInfo += "@";
+  }
+
+  let scheme = outbound.protocol;
+  if (scheme === "http" && outbound.streamSettings?.security === "tls") {
+    scheme = "https";
+  }
+  const fragment = encodeURIComponent(remarks);
+
+  return `${scheme}://${userInfo}${formatHost(server.address)}:${server.port}#${fragment}`;
+}
+
+function convertHysteria2(
+  outbound: Outbound,
+  remarks: string,
+  warn?: (msg: string) => void
+): string | null {
+  const server = readHysteria2(outbound);
+
+  const params: Record<string, string> = {};
+  const streamParams = extractStreamParams(outbound.streamSettings || {}, warn);
+  if (streamParams.sni) params.sni = streamParams.sni;
+  if (streamParams.alpn) params.alpn = streamParams.alpn;
+  if (streamParams.allowInsecure) params.insecure = "1";
+  if (streamParams.pcs) params.pinSHA256 = streamParams.pcs;
+  if (server.obfs) {
+    params.obfs = server.obfs.type;
+    if (server.obfs.password) params["obfs-password"] = server.obfs.password;
+  }
+
+  const userInfo = server.auth ? `${encodeURIComponent(server.auth)}@` : "";
+  // Hysteria2 allows port hopping ranges such as 20000-30000
+  const port = server.ports || String(server.port);
+  const query = buildQueryParams(params);
+  const fragment = encodeURIComponent(remarks);
+
+  return `hysteria2://${userInfo}${formatHost(server.address)}:${port}/?${query}#${fragment}`;
+}
+
+function convertTuic(
+  outbound: Outbound,
+  remarks: string,
+  warn?: (msg: string) => void
+): string | null {
+  const server = readTuic(outbound);
+
+  const params: Record<string, string> = {};
+  if (server.congestionControl) {
+    params.congestion_control = server.congestionControl;
+  }
+  if (server.udpRelayMode) params.udp_relay_mode = server.udpRelayMode;
+
+  const streamParams = extractStreamParams(outbound.streamSettings || {}, warn);
+  if (streamParams.sni) params.sni = streamParams.sni;
+  const alpn = server.alpn?.join(",") || streamParams.alpn;
+  if (alpn) params.alpn = alpn;
+  if (streamParams.allowInsecure) params.allow_insecure = "1";
+
+  const uuid = encodeURIComponent(server.uuid);
+  const password = server.password
+    ? `:${encodeURIComponent(server.password)}`
+    : "";
+  const query = buildQueryParams(params);
+  const fragment = encodeURIComponent(remarks);
+
+  return `tuic://${uuid}${password}@${formatHost(server.address)}:${server.port}?${query}#${fragment}`;
+}
+
+export type LinkConverter = (
+  outbound: Outbound,
+  remarks: string,
+  warn: (msg: string) => void
+) => string | null;
+
+// Share-link encoder per outbound protocol. Scripts may register their own.
+export const linkConverters = new Map<string, LinkConverter>([
+  ["vless", convertVless],
+  ["vmess", convertVmess],
+  ["trojan", convertTrojan],
+  ["shadowsocks", convertShadowsocks],
+  ["ss", convertShadowsocks],
+  ["wireguard", convertWireguard],
+  ["socks", convertSocksOrHttp],
+  ["http", convertSocksOrHttp],
+  ["hysteria2", convertHysteria2],
+  ["hysteria", convertHysteria2],
+  ["tuic", convertTuic],
+]);
+
+// One single-server, single-user outbound (see expandOutbound) to a link
+export function convertOutbound(
+  outbound: Outbound,
+  remarks: string,
+  warn: (msg: string) => void = () => {}
+): string | null {
+  const convert = linkConverters.get(outbound.protocol);
+  return convert ? convert(outbound, remarks, warn) : null;
+}
+
+// Links whose query v2rayN and Hiddify read mux and fragment from; VMess
+// JSON and the QUIC, WireGuard and proxy links have no place for them
+const EXTRA_SCHEMES = ["vless", "trojan", "ss"];
+
+// Mux as mux=1 and mux_concurrency, and the fragment settings of a freedom
+// dialer the way Hiddify writes them: fragment=length,interval,packets
+export function extraParams(
+  outbound: Outbound,
+  dialer?: Dialer
+): { params: Record<string, string>; carried: string[] } {
+  const params: Record<string, string> = {};
+  const carried: string[] = [];
+  const mux = outbound.mux;
+  if (mux?.enabled) {
+    params.mux = "1";
+    if (mux.concurrency) params.mux_concurrency = String(mux.concurrency);
+    carried.push("mux");
+  }
+  const via = dialer?.outbound;
+  const fragment = via?.protocol === "freedom" && via.settings?.fragment;
+  if (fragment && typeof fragment === "object") {
+    const { length, interval, packets } = fragment as Record<string, unknown>;
+    if (length && interval && packets) {
+      params.fragment = [length, interval, packets].join(",");
+      carried.push("fragment");
+    }
+  }
+  return { params, carried };
+}
+
+// Adds parameters to the query of a finished link, before its #remarks
+function appendQuery(link: string, params: Record<string, string>): string {
+  const query = buildQueryParams(params);
+  if (!query) return link;
+  const hashIdx = link.indexOf("#");
+  const base = hashIdx === -1 ? link : link.slice(0, hashIdx);
+  const remarks = hashIdx === -1 ? "" : link.slice(hashIdx);
+  const sep = base.includes("?") ? "&" : base.startsWith("ss://") ? "/?" : "?";
+  return `${base}${sep}${query}${remarks}`;
+}
+
+// A proxy's link with the mux and fragment parameters its scheme can carry,
+// warning about the extras it cannot
+export function linkWithExtras(
+  outbound: Outbound,
+  name: string,
+  warn: (msg: string) => void,
+  dialer?: Dialer
+): string {
+  const link = convertOutbound(outbound, name, warn);
+  if (!link) throw new Error(`unsupported protocol "${outbound.protocol}"`);
+  // No share link format has fields for sockopt or chains
+  const scheme = link.slice(0, link.indexOf("://"));
+  const extras = EXTRA_SCHEMES.includes(scheme)
+    ? extraParams(outbound, dialer)
+    : { params: {}, carried: [] };
+  reportLostExtras(
+    findExtras(outbound, dialer),
+    extras.carried,
+    "share links",
+    warn
+  );
+  return appendQuery(link, extras.params);
+}
+
+export function toLinks(
+  input: string | ConfigInput[],
+  options: ConvertOptions = {}
+): {
+  links: string[];
+  errors: string[];
+  warnings: string[];
+  reports: ConfigReport[];
+  syntaxError?: JsonLocation;
+} {
+  const { configs, errors, warnings, syntaxError } = parseConfig(
+    input,
+    options
+  );
+  const result = mapConfigProxies(configs, linkWithExtras, options);
+  errors.push(...result.errors);
+  warnings.push(...result.warnings);
+  const { reports } = result;
+
+  return { links: result.items, errors, warnings, reports, syntaxError };
+}
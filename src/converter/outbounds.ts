@@ -0,0 +1,507 @@
+import type { Dialer } from "./extras";
+import { isServerConfig, readInbounds } from "./inbounds";
+import { JsonSyntaxError, parseJsonc, type JsonLocation } from "./jsonc";
+import { parseLink } from "./parseLink";
+import { remarksFields, renderRemarks, type CountryMap } from "./remarks";
+import { readSubscription } from "./subscription";
+import type { Outbound, XrayConfig } from "./types";
+import {
+  hasErrorsAt,
+  validateConfig,
+  type ConfigReport,
+  type Diagnostic,
+} from "./validate";
+
+export const UTILITY_PROTOCOLS = ["freedom", "blackhole", "dns", "loopback"];
+
+// Splits an outbound into one outbound per server × user (or WireGuard peer),
+// so each converter only ever has to read vnext[0].users[0], servers[0] or
+// peers[0]
+export function expandOutbound(outbound: Outbound): Outbound[] {
+  const settings = outbound.settings || {};
+
+  if (outbound.protocol === "vless" || outbound.protocol === "vmess") {
+    const vnext = settings.vnext as Array<Record<string, unknown>> | undefined;
+    if (!Array.isArray(vnext) || vnext.length === 0) {
+      throw new Error("settings.vnext is missing or empty");
+    }
+    const expanded: Outbound[] = [];
+    vnext.forEach((server, i) => {
+      const users = server.users as Array<Record<string, unknown>> | undefined;
+      if (!Array.isArray(users) || users.length === 0) {
+        throw new Error(`settings.vnext[${i}].users is missing or empty`);
+      }
+      for (const user of users) {
+        expanded.push({
+          ...outbound,
+          settings: { ...settings, vnext: [{ ...server, users: [user] }] },
+        });
+      }
+    });
+    return expanded;
+  }
+
+  if (
+    outbound.protocol === "trojan" ||
+    outbound.protocol === "shadowsocks" ||
+    outbound.protocol === "ss"
+  ) {
+    const servers = settings.servers as
+      Array<Record<string, unknown>> | undefined;
+    if (!Array.isArray(servers) || servers.length === 0) {
+      throw new Error("settings.servers is missing or empty");
+    }
+    // SS-2022 servers may list several users, each with its own key
+    return servers.flatMap((server) => {
+      const users = server.users as Array<Record<string, unknown>> | undefined;
+      const perUser =
+        Array.isArray(users) && users.length > 0
+          ? users.map((user) => ({ ...server, users: [user] }))
+          : [server];
+      return perUser.map((entry) => ({
+        ...outbound,
+        settings: { ...settings, servers: [entry] },
+      }));
+    });
+  }
+
+  if (outbound.protocol === "socks" || outbound.protocol === "http") {
+    const expanded: Outbound[] = [];
+    readServers(settings).forEach((server, i) => {
+      const users = (server.users as Array<Record<string, unknown>>) || [];
+      // Newer Xray also accepts a single user inline on the server
+      if (users.length === 0 && server.user) {
+        users.push({ user: server.user, pass: server.pass });
+      }
+      if (!server.address) {
+        throw new Error(`settings.servers[${i}].address is missing`);
+      }
+      for (const user of users.length > 0 ? users : [undefined]) {
+        expanded.push({
+          ...outbound,
+          settings: {
+            servers: [{ ...server, users: user ? [user] : [] }],
+          },
+        });
+      }
+    });
+    return expanded;
+  }
+
+  if (
+    outbound.protocol === "hysteria2" ||
+    outbound.protocol === "hysteria" ||
+    outbound.protocol === "tuic"
+  ) {
+    return readServers(settings).map((server) => ({
+      ...outbound,
+      settings: { ...settings, servers: [server] },
+    }));
+  }
+
+  if (outbound.protocol === "wireguard") {
+    const peers = settings.peers as Array<Record<string, unknown>> | undefined;
+    if (!Array.isArray(peers) || peers.length === 0) {
+      throw new Error("settings.peers is missing or empty");
+    }
+    if (!settings.secretKey) throw new Error("settings.secretKey is missing");
+    return peers.map((peer) => ({
+      ...outbound,
+      settings: { ...settings, peers: [peer] },
+    }));
+  }
+
+  // Unknown layouts pass through unsplit, for converters registered by scripts
+  return [outbound];
+}
+
+// Accepts both settings.servers[] and the flat single-server form
+function readServers(
+  settings: Record<string, unknown>
+): Array<Record<string, unknown>> {
+  if (Array.isArray(settings.servers) && settings.servers.length > 0) {
+    return settings.servers as Array<Record<string, unknown>>;
+  }
+  const address = settings.address ?? settings.server;
+  if (address) {
+    return [{ ...settings, address }];
+  }
+  throw new Error("settings.servers is missing or empty");
+}
+
+export function describeOutbound(outbound: Outbound, index: number): string {
+  const name = outbound.tag ? `"${outbound.tag}"` : `#${index + 1}`;
+  return `outbound ${name} (${outbound.protocol || "no protocol"})`;
+}
+
+export interface ProxyEntry {
+  // A single-server, single-user outbound
+  outbound: Outbound;
+  name: string;
+  // Set when streamSettings.sockopt.dialerProxy chains it through another
+  // outbound
+  dialer?: Dialer;
+}
+
+// Every proxy outbound (not direct, not block), split per server × user and
+// named after the config remarks plus the outbound tag or index. Outbounds
+// with validation errors are skipped; the diagnostics say what is wrong.
+// exclude lists outbounds, by tag or "#n", the user left out.
+export function collectProxies(
+  config: XrayConfig,
+  fallbackRemarks = "Unnamed",
+  exclude: string[] = []
+): {
+  proxies: ProxyEntry[];
+  skipped: string[];
+  diagnostics: Diagnostic[];
+} {
+  const diagnostics = validateConfig(config);
+  const skipped: string[] = [];
+  if (typeof config !== "object" || !Array.isArray(config?.outbounds)) {
+    skipped.push("no outbounds array to convert");
+    return { proxies: [], skipped, diagnostics };
+  }
+
+  const remarks = config.remarks || fallbackRemarks;
+  const outbounds = config.outbounds;
+
+  const groups: Array<{ label: string; entries: Outbound[] }> = [];
+  let excluded = 0;
+  outbounds.forEach((ob, i) => {
+    if (hasErrorsAt(diagnostics, `outbounds[${i}]`)) {
+      skipped.push(
+        `${describeOutbound(ob || ({} as Outbound), i)} skipped — see the diagnostics for outbounds[${i}]`
+      );
+      return;
+    }
+    if (UTILITY_PROTOCOLS.includes(ob.protocol)) return;
+    const label = ob.tag || `#${i + 1}`;
+    if (exclude.includes(label)) {
+      excluded++;
+      return;
+    }
+    try {
+      groups.push({ label, entries: expandOutbound(ob) });
+    } catch (e) {
+      skipped.push(
+        `${describeOutbound(ob, i)} skipped — ${e instanceof Error ? e.message : String(e)}`
+      );
+    }
+  });
+
+  // Leaving every outbound out is a choice, not something to report
+  if (groups.length === 0 && skipped.length === 0 && excluded === 0) {
+    skipped.push(
+      isServerConfig(config)
+        ? "no proxy outbound found; this looks like a server config, so convert its inbounds with the server's public address"
+        : "no proxy outbound found"
+    );
+  }
+
+  const total = groups.reduce((sum, g) => sum + g.entries.length, 0);
+  const proxies: ProxyEntry[] = [];
+  for (const group of groups) {
+    group.entries.forEach((outbound, j) => {
+      // Keep the plain remarks when the config yields a single proxy
+      let name = remarks;
+      if (total > 1) {
+        name = `${remarks} [${group.label}${group.entries.length > 1 ? ` ${j + 1}` : ""}]`;
+      }
+      const dialerTag = outbound.streamSettings?.sockopt?.dialerProxy;
+      const dialer =
+        typeof dialerTag === "string" && dialerTag
+          ? {
+              tag: dialerTag,
+              outbound: outbounds.find((ob) => ob?.tag === dialerTag),
+            }
+          : undefined;
+      proxies.push({ outbound, name, dialer });
+    });
+  }
+
+  return { proxies, skipped, diagnostics };
+}
+
+// Text to convert: JSON configs, a link list or a base64 subscription.
+// source is the file name when it was loaded from disk.
+export interface ConfigInput {
+  text: string;
+  source?: string;
+}
+
+// A parsed config, the label its messages carry and the remarks used when it
+// has none of its own
+export interface LoadedConfig {
+  config: XrayConfig;
+  label: string;
+  fallbackRemarks: string;
+}
+
+// Accepts JSONC (comments, trailing commas) like Xray does
+export function readConfigs(input: string): XrayConfig[] {
+  const parsed = parseJsonc(input);
+  return Array.isArray(parsed) ? parsed : [parsed as XrayConfig];
+}
+
+// "configs/alice.json" → "alice"
+function fileRemarks(source: string): string {
+  const base = source.slice(source.lastIndexOf("/") + 1);
+  const dot = base.lastIndexOf(".");
+  return dot > 0 ? base.slice(0, dot) : base;
+}
+
+// User-facing message for input readConfigs rejected, plus where it broke
+function describeReadError(e: unknown): {
+  message: string;
+  location?: JsonLocation;
+} {
+  if (e instanceof JsonSyntaxError) {
+    return {
+      message: `Invalid JSON: ${e.message}`,
+      location: { line: e.line, column: e.column },
+    };
+  }
+  return { message: "Invalid JSON input. Please check your config." };
+}
+
+export interface ConvertOptions {
+  // Drop proxies whose endpoint matches an earlier one in every field
+  // except the name
+  dedupe?: boolean;
+  // Names every proxy from its fields, e.g. "{flag} {remarks} · {network}";
+  // see renderRemarks
+  remarksTemplate?: string;
+  // Address → country code for the {country} and {flag} placeholders
+  countries?: CountryMap;
+  // Reads the inbounds of server configs instead of their outbounds, one
+  // proxy per client, connecting to this public address
+  serverAddress?: string;
+  // Config label → outbounds (tag or "#n") to leave out, as picked from the
+  // graph analyzeRouting draws
+  excludeOutbounds?: Record<string, string[]>;
+}
+
+// Parses pasted text or a batch of files. Link lists and subscriptions become
+// one config per link, as parseLinks builds them. A syntax error in one file
+// does not stop the others; only pasted text reports a location to highlight.
+export function parseConfig(
+  input: string | ConfigInput[],
+  options: ConvertOptions = {}
+): {
+  configs: LoadedConfig[];
+  errors: string[];
+  warnings: string[];
+  syntaxError?: JsonLocation;
+} {
+  const inputs = typeof input === "string" ? [{ text: input }] : input;
+  const configs: LoadedConfig[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  let syntaxError: JsonLocation | undefined;
+
+  for (const { text, source } of inputs) {
+    const prefix = source ? `${source} › ` : "";
+    const fallbackRemarks = source ? fileRemarks(source) : "Unnamed";
+
+    const subscription = readSubscription(text);
+    if (subscription) {
+      subscription.links.forEach((link, i) => {
+        try {
+          const config = parseLink(link);
+          configs.push({
+            config,
+            label: `${prefix}Link #${i + 1} "${config.remarks || fallbackRemarks}"`,
+            fallbackRemarks,
+          });
+        } catch (e) {
+          errors.push(
+            `${prefix}Link #${i + 1}: Error — ${e instanceof Error ? e.message : String(e)}`
+          );
+        }
+      });
+      continue;
+    }
+
+    let parsed: XrayConfig[];
+    try {
+      parsed = readConfigs(text);
+    } catch (e) {
+      const { message, location } = describeReadError(e);
+      if (source) {
+        errors.push(`${source}: ${message}`);
+      } else {
+        errors.push(message);
+        syntaxError = location;
+      }
+      continue;
+    }
+
+    const serverAddress = options.serverAddress?.trim();
+    parsed.forEach((config, i) => {
+      if (serverAddress) {
+        const result = readInbounds(config, serverAddress);
+        for (const client of result.configs) {
+          configs.push({
+            config: client.config,
+            label: `${prefix}Config #${i + 1} › ${client.label}`,
+            fallbackRemarks,
+          });
+        }
+        for (const error of result.errors) {
+          errors.push(`${prefix}Config #${i + 1}: ${error}`);
+        }
+        for (const warning of result.warnings) {
+          warnings.push(`${prefix}Config #${i + 1}: ${warning}`);
+        }
+        return;
+      }
+      const remarks =
+        config && typeof config.remarks === "string" ? config.remarks : "";
+      configs.push({
+        config,
+        label: `${prefix}Config #${i + 1} "${remarks || fallbackRemarks}"`,
+        fallbackRemarks,
+      });
+    });
+  }
+
+  return { configs, errors, warnings, syntaxError };
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Identity of a single-server proxy: every field but the tag, in key order
+export function endpointKey(outbound: Outbound): string {
+  const { tag: _tag, ...rest } = outbound;
+  return stableStringify(rest);
+}
+
+// The fragment settings of a freedom outbound the proxy dials through, which
+// links carry as the fragment parameter
+export function dialerFragment(proxy: ProxyEntry): unknown {
+  const via = proxy.dialer?.outbound;
+  return via?.protocol === "freedom" ? via.settings?.fragment : undefined;
+}
+
+// endpointKey plus the fragmenting dialer, so links differing only in their
+// fragment parameter stay apart
+export function proxyKey(proxy: ProxyEntry): string {
+  const fragment = dialerFragment(proxy);
+  const key = endpointKey(proxy.outbound);
+  return fragment ? `${key}\n${JSON.stringify(fragment)}` : key;
+}
+
+// Runs an exporter over every proxy of every config. Names are made unique
+// across the whole set, since client configs reference proxies by name, and
+// a dialerProxy chain is handed the name its dialer got.
+export function mapConfigProxies<T>(
+  configs: LoadedConfig[],
+  convert: (
+    outbound: Outbound,
+    name: string,
+    warn: (msg: string) => void,
+    dialer?: Dialer
+  ) => T,
+  options: ConvertOptions = {}
+): {
+  items: T[];
+  errors: string[];
+  warnings: string[];
+  reports: ConfigReport[];
+} {
+  const items: T[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const reports: ConfigReport[] = [];
+  const used = new Set<string>();
+  const seen = new Map<string, string>();
+  let index = 0;
+
+  for (const { config, label: prefix, fallbackRemarks } of configs) {
+    try {
+      const result = collectProxies(
+        config,
+        fallbackRemarks,
+        options.excludeOutbounds?.[prefix]
+      );
+      if (result.diagnostics.length > 0) {
+        reports.push({ label: prefix, diagnostics: result.diagnostics });
+      }
+
+      // Name every proxy first, so a chain can refer to a dialer listed
+      // after it
+      const named: Array<{ proxy: ProxyEntry; name: string }> = [];
+      for (const proxy of result.proxies) {
+        let name = proxy.name;
+        if (options.remarksTemplate) {
+          const remarks = config.remarks || fallbackRemarks;
+          const fields = remarksFields(
+            proxy.outbound,
+            remarks,
+            index + 1,
+            options.countries
+          );
+          name = renderRemarks(options.remarksTemplate, fields) || name;
+        }
+        if (options.dedupe) {
+          const key = proxyKey(proxy);
+          const first = seen.get(key);
+          if (first !== undefined) {
+            warnings.push(`${prefix}: "${name}" dropped, same as "${first}"`);
+            continue;
+          }
+          seen.set(key, name);
+        }
+        let unique = name;
+        for (let n = 2; used.has(unique); n++) unique = `${name} (${n})`;
+        used.add(unique);
+        index++;
+        named.push({ proxy, name: unique });
+      }
+
+      const tagNames = new Map<string, string>();
+      for (const { proxy, name } of named) {
+        const tag = proxy.outbound.tag;
+        if (tag && !tagNames.has(tag)) tagNames.set(tag, name);
+      }
+
+      for (const { proxy, name } of named) {
+        const pending: string[] = [];
+        const dialer = proxy.dialer && {
+          ...proxy.dialer,
+          name: tagNames.get(proxy.dialer.tag),
+        };
+        try {
+          items.push(
+            convert(proxy.outbound, name, (msg) => pending.push(msg), dialer)
+          );
+          for (const msg of pending)
+            warnings.push(`${prefix}: "${name}" ${msg}`);
+        } catch (e) {
+          errors.push(
+            `${prefix}: "${name}" skipped — ${e instanceof Error ? e.message : String(e)}`
+          );
+        }
+      }
+      for (const reason of result.skipped) {
+        errors.push(`${prefix}: ${reason}`);
+      }
+    } catch (e) {
+      errors.push(
+        `${prefix}: Error — ${e instanceof Error ? e.message : String(e)}`
+      );
+    }
+  }
+
+  return { items, errors, warnings, reports };
+}
@@ -0,0 +1,670 @@
+import { decodeBase64 } from "../utils/base64";
+import { parsePluginOptions } from "./shadowsocks";
+import { splitList } from "./stream";
+import { readSubscription } from "./subscription";
+import type { Outbound, StreamSettings, XrayConfig } from "./types";
+
+interface LinkParts {
+  userInfo: string;
+  host: string;
+  port: number;
+  // Hysteria2 port hopping range such as 20000-30000, when one was given
+  ports?: string;
+  params: Record<string, string>;
+  remarks: string;
+}
+
+interface ParsedLink {
+  outbound: Outbound;
+  remarks: string;
+  // Query of the links that may carry mux and fragment (see readLinkExtras)
+  params?: Record<string, string>;
+}
+
+export function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function parsePort(value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`invalid port "${value}"`);
+  }
+  return port;
+}
+
+function splitHostPort(hostPort: string): { host: string; port: number } {
+  // IPv6 addresses may come bracketed: [::1]:443
+  const bracketed = hostPort.match(/^\[([^\]]+)\]:(\d+)$/);
+  if (bracketed) {
+    return { host: bracketed[1], port: parsePort(bracketed[2]) };
+  }
+  const idx = hostPort.lastIndexOf(":");
+  if (idx <= 0) throw new Error(`missing port in "${hostPort}"`);
+  return {
+    host: hostPort.slice(0, idx),
+    port: parsePort(hostPort.slice(idx + 1)),
+  };
+}
+
+function parseQuery(query: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const part of query.split("&")) {
+    if (!part) continue;
+    const eq = part.indexOf("=");
+    const key = eq === -1 ? part : part.slice(0, eq);
+    const value = eq === -1 ? "" : part.slice(eq + 1);
+    params[safeDecode(key)] = safeDecode(value.replace(/\+/g, "%20"));
+  }
+  return params;
+}
+
+// Splits scheme://userinfo@host:port?query#fragment into its parts. SOCKS
+// and HTTP links may leave out the userinfo; Hysteria2 links may give a
+// port range.
+function splitLink(
+  link: string,
+  scheme: string,
+  { optionalUserInfo = false, portRange = false } = {}
+): LinkParts {
+  let rest = link.slice(`${scheme}://`.length);
+
+  let remarks = "";
+  const hashIdx = rest.indexOf("#");
+  if (hashIdx !== -1) {
+    remarks = safeDecode(rest.slice(hashIdx + 1));
+    rest = rest.slice(0, hashIdx);
+  }
+
+  let params: Record<string, string> = {};
+  const queryIdx = rest.indexOf("?");
+  if (queryIdx !== -1) {
+    params = parseQuery(rest.slice(queryIdx + 1));
+    rest = rest.slice(0, queryIdx);
+  }
+  rest = rest.replace(/\/$/, "");
+
+  const atIdx = rest.lastIndexOf("@");
+  if (atIdx === -1 && !optionalUserInfo) throw new Error("missing user info");
+  const userInfo = atIdx === -1 ? "" : rest.slice(0, atIdx);
+  const hostPort = rest.slice(atIdx + 1);
+
+  const range = portRange && hostPort.match(/^(.+):(\d+(?:[-,]\d+)+)$/);
+  if (range) {
+    const first = range[2].match(/^\d+/)![0];
+    const { host, port } = splitHostPort(`${range[1]}:${first}`);
+    return { userInfo, host, port, ports: range[2], params, remarks };
+  }
+  const { host, port } = splitHostPort(hostPort);
+  return { userInfo, host, port, params, remarks };
+}
+
+// Inverse of extractStreamParams: rebuilds streamSettings from link params
+export function buildStreamSettings(
+  params: Record<string, string>
+): StreamSettings {
+  const network = params.type || "tcp";
+  const security = params.security || "none";
+  const stream: StreamSettings = { network, security };
+
+  if (security === "reality") {
+    const rs: Record<string, unknown> = {};
+    if (params.sni) rs.serverName = params.sni;
+    if (params.fp) rs.fingerprint = params.fp;
+    if (params.pbk) rs.publicKey = params.pbk;
+    if (params.sid) rs.shortId = params.sid;
+    if (params.spx) rs.spiderX = params.spx;
+    if (params.pqv) rs.mldsa65Verify = params.pqv;
+    stream.realitySettings = rs;
+  }
+
+  if (security === "tls") {
+    const ts: Record<string, unknown> = {};
+    if (params.sni) ts.serverName = params.sni;
+    if (params.fp) ts.fingerprint = params.fp;
+    if (params.alpn) ts.alpn = splitList(params.alpn);
+    if (params.allowInsecure === "1" || params.allowInsecure === "true") {
+      ts.allowInsecure = true;
+    }
+    if (params.pcs) ts.pinnedPeerCertificateChainSha256 = splitList(params.pcs);
+    if (params.ech) ts.echConfigList = params.ech;
+    stream.tlsSettings = ts;
+  }
+
+  if (network === "ws") {
+    const ws: Record<string, unknown> = {};
+    if (params.path) ws.path = params.path;
+    if (params.host) ws.headers = { Host: params.host };
+    stream.wsSettings = ws;
+  }
+
+  if (network === "grpc") {
+    const grpc: Record<string, unknown> = {};
+    if (params.serviceName) grpc.serviceName = params.serviceName;
+    if (params.mode === "multi") grpc.multiMode = true;
+    if (params.authority) grpc.authority = params.authority;
+    stream.grpcSettings = grpc;
+  }
+
+  if (network === "tcp" && params.headerType && params.headerType !== "none") {
+    const header: Record<string, unknown> = { type: params.headerType };
+    if (params.headerType === "http") {
+      const request: Record<string, unknown> = {};
+      if (params.path) request.path = [params.path];
+      if (params.host) request.headers = { Host: splitList(params.host) };
+      header.request = request;
+    }
+    stream.tcpSettings = { header };
+  }
+
+  if (network === "xhttp" || network === "splithttp") {
+    stream.network = "xhttp";
+    const xh: Record<string, unknown> = {};
+    if (params.path) xh.path = params.path;
+    if (params.host) xh.host = params.host;
+    if (params.mode) xh.mode = params.mode;
+    if (params.extra) {
+      try {
+        xh.extra = JSON.parse(params.extra);
+      } catch {
+        throw new Error("extra is not valid JSON");
+      }
+    }
+    stream.xhttpSettings = xh;
+  }
+
+  if (network === "httpupgrade") {
+    const hu: Record<string, unknown> = {};
+    if (params.path) hu.path = params.path;
+    if (params.host) hu.host = params.host;
+    stream.httpupgradeSettings = hu;
+  }
+
+  if (network === "h2" || network === "http") {
+    const h2: Record<string, unknown> = {};
+    if (params.path) h2.path = params.path;
+    if (params.host) h2.host = splitList(params.host);
+    stream.httpSettings = h2;
+  }
+
+  if (network === "quic") {
+    const quic: Record<string, unknown> = {};
+    if (params.quicSecurity) quic.security = params.quicSecurity;
+    if (params.key) quic.key = params.key;
+    if (params.headerType) quic.header = { type: params.headerType };
+    stream.quicSettings = quic;
+  }
+
+  if (network === "kcp") {
+    const kcp: Record<string, unknown> = {};
+    if (params.seed) kcp.seed = params.seed;
+    if (params.headerType) kcp.header = { type: params.headerType };
+    stream.kcpSettings = kcp;
+  }
+
+  return stream;
+}
+
+function parseVless(link: string): ParsedLink {
+  const { userInfo, host, port, params, remarks } = splitLink(link, "vless");
+  if (!userInfo) throw new Error("missing UUID");
+
+  const user: Record<string, unknown> = {
+    id: safeDecode(userInfo),
+    encryption: params.encryption || "none",
+  };
+  if (params.flow) user.flow = params.flow;
+
+  return {
+    outbound: {
+      protocol: "vless",
+      tag: "proxy",
+      settings: { vnext: [{ address: host, port, users: [user] }] },
+      streamSettings: buildStreamSettings(params),
+    },
+    remarks,
+    params,
+  };
+}
+
+function parseVmess(link: string): { outbound: Outbound; remarks: string } {
+  let obj: Record<string, unknown>;
+  try {
+    obj = JSON.parse(decodeBase64(link.slice("vmess://".length)));
+  } catch {
+    throw new Error("payload is not base64-encoded JSON");
+  }
+  if (!obj.add || !obj.id) throw new Error("missing address or id");
+
+  const tls = String(obj.tls || "");
+  const params: Record<string, string> = {
+    type: String(obj.net || "tcp"),
+    security: tls === "tls" || tls === "reality" ? tls : "none",
+  };
+  const copy: Array<[string, string]> = [
+    ["type", "headerType"],
+    ["host", "host"],
+    ["path", "path"],
+    ["sni", "sni"],
+    ["alpn", "alpn"],
+    ["fp", "fp"],
+  ];
+  for (const [from, to] of copy) {
+    if (obj[from]) params[to] = String(obj[from]);
+  }
+  // v2rayN stores the gRPC service name and the kcp seed in "path", and the
+  // gRPC and xhttp modes in "type"
+  if (params.type === "grpc") {
+    if (params.path) params.serviceName = params.path;
+    if (obj.type === "multi") params.mode = "multi";
+    delete params.path;
+    delete params.headerType;
+  } else if (params.type === "kcp" && params.path) {
+    params.seed = params.path;
+    delete params.path;
+  } else if (params.type === "xhttp" && params.headerType) {
+    if (params.headerType !== "none") params.mode = params.headerType;
+    delete params.headerType;
+  }
+
+  return {
+    outbound: {
+      protocol: "vmess",
+      tag: "proxy",
+      settings: {
+        vnext: [
+          {
+            address: String(obj.add),
+            port: parsePort(String(obj.port)),
+            users: [
+              {
+                id: String(obj.id),
+                alterId: Number(obj.aid || 0),
+                security: String(obj.scy || "auto"),
+              },
+            ],
+          },
+        ],
+      },
+      streamSettings: buildStreamSettings(params),
+    },
+    remarks: String(obj.ps || ""),
+  };
+}
+
+function parseTrojan(link: string): ParsedLink {
+  const { userInfo, host, port, params, remarks } = splitLink(link, "trojan");
+  if (!userInfo) throw new Error("missing password");
+
+  return {
+    outbound: {
+      protocol: "trojan",
+      tag: "proxy",
+      settings: {
+        servers: [{ address: host, port, password: safeDecode(userInfo) }],
+      },
+      streamSettings: buildStreamSettings(params),
+    },
+    remarks,
+    params,
+  };
+}
+
+// Inverse of resolveSsPlugin for the plugin= query of a SIP002 link. The
+// plugins resolveSsPlugin writes become the stream Xray runs natively; any
+// other plugin, or an option the stream cannot hold, stays on the server as
+// plugin and pluginOpts so the exporters write it back unchanged.
+function readSsPlugin(value: string): {
+  stream?: StreamSettings;
+  server?: { plugin: string; pluginOpts?: string };
+} {
+  const semi = value.indexOf(";");
+  const name = semi === -1 ? value : value.slice(0, semi);
+  const opts = semi === -1 ? "" : value.slice(semi + 1);
+  const options = new Map(parsePluginOptions(opts));
+  const only = (...keys: string[]) =>
+    [...options.keys()].every((key) => keys.includes(key));
+
+  if (
+    name === "v2ray-plugin" &&
+    only("mode", "tls", "host", "path") &&
+    (options.get("mode") ?? "websocket") === "websocket" &&
+    options.get("tls") == null
+  ) {
+    const tls = options.has("tls");
+    const host = options.get("host") || "";
+    const stream = buildStreamSettings({
+      type: "ws",
+      security: tls ? "tls" : "none",
+      host,
+      path: options.get("path") || "",
+    });
+    // v2ray-plugin sends its host as the SNI too
+    if (tls && host) stream.tlsSettings = { serverName: host };
+    return { stream };
+  }
+
+  if (
+    name === "obfs-local" &&
+    only("obfs", "obfs-host") &&
+    options.get("obfs") === "http"
+  ) {
+    return {
+      stream: buildStreamSettings({
+        type: "tcp",
+        headerType: "http",
+        host: options.get("obfs-host") || "",
+      }),
+    };
+  }
+
+  return {
+    server: opts ? { plugin: name, pluginOpts: opts } : { plugin: name },
+  };
+}
+
+function parseShadowsocks(link: string): ParsedLink {
+  let body = link.slice("ss://".length);
+
+  // Legacy form: ss://base64(method:password@host:port)#remarks
+  if (!body.split("#")[0].includes("@")) {
+    const hashIdx = body.indexOf("#");
+    const fragment = hashIdx === -1 ? "" : body.slice(hashIdx);
+    const encoded = hashIdx === -1 ? body : body.slice(0, hashIdx);
+    body = decodeBase64(safeDecode(encoded)) + fragment;
+  }
+
+  const { userInfo, host, port, params, remarks } = splitLink(
+    `ss://${body}`,
+    "ss"
+  );
+
+  // SIP002 allows both base64 userinfo and plain percent-encoded method:password
+  let credentials = safeDecode(userInfo);
+  if (!credentials.includes(":")) {
+    try {
+      credentials = decodeBase64(credentials);
+    } catch {
+      throw new Error("user info is neither method:password nor base64");
+    }
+  }
+  const sep = credentials.indexOf(":");
+  if (sep === -1) throw new Error("missing method or password");
+
+  const plugin = params.plugin ? readSsPlugin(params.plugin) : {};
+  return {
+    outbound: {
+      protocol: "shadowsocks",
+      tag: "proxy",
+      settings: {
+        servers: [
+          {
+            address: host,
+            port,
+            method: credentials.slice(0, sep),
+            password: credentials.slice(sep + 1),
+            ...plugin.server,
+            ...(params.uot === "1" || params["udp-over-tcp"] === "true"
+              ? { uot: true }
+              : {}),
+          },
+        ],
+      },
+      streamSettings: plugin.stream,
+    },
+    remarks,
+    params,
+  };
+}
+
+// TLS alone, for protocols that bring their own transport
+function tlsOnly(params: Record<string, string>): StreamSettings {
+  const { network: _network, ...stream } = buildStreamSettings({
+    ...params,
+    security: "tls",
+  });
+  return stream;
+}
+
+function parseHysteria2(
+  link: string,
+  scheme: string
+): { outbound: Outbound; remarks: string } {
+  const { userInfo, host, port, ports, params, remarks } = splitLink(
+    link,
+    scheme,
+    { optionalUserInfo: true, portRange: true }
+  );
+
+  const server: Record<string, unknown> = { address: host };
+  if (ports) server.ports = ports;
+  else server.port = port;
+  if (userInfo) server.password = safeDecode(userInfo);
+  if (params.obfs) {
+    server.obfs = { type: params.obfs, password: params["obfs-password"] };
+  }
+
+  return {
+    outbound: {
+      protocol: "hysteria2",
+      tag: "proxy",
+      settings: { servers: [server] },
+      streamSettings: tlsOnly({
+        sni: params.sni,
+        alpn: params.alpn,
+        allowInsecure: params.insecure,
+        pcs: params.pinSHA256,
+      }),
+    },
+    remarks,
+  };
+}
+
+function parseTuic(link: string): { outbound: Outbound; remarks: string } {
+  const { userInfo, host, port, params, remarks } = splitLink(link, "tuic");
+  const sep = userInfo.indexOf(":");
+  const uuid = safeDecode(sep === -1 ? userInfo : userInfo.slice(0, sep));
+  if (!uuid) throw new Error("missing UUID");
+
+  const server: Record<string, unknown> = { address: host, port, uuid };
+  if (sep !== -1) server.password = safeDecode(userInfo.slice(sep + 1));
+  if (params.congestion_control) {
+    server.congestionControl = params.congestion_control;
+  }
+  if (params.udp_relay_mode) server.udpRelayMode = params.udp_relay_mode;
+
+  return {
+    outbound: {
+      protocol: "tuic",
+      tag: "proxy",
+      settings: { servers: [server] },
+      streamSettings: tlsOnly({
+        sni: params.sni,
+        alpn: params.alpn,
+        allowInsecure: params.allow_insecure,
+      }),
+    },
+    remarks,
+  };
+}
+
+function parseWireguard(link: string): { outbound: Outbound; remarks: string } {
+  const { userInfo, host, port, params, remarks } = splitLink(
+    link,
+    "wireguard"
+  );
+  if (!userInfo) throw new Error("missing private key");
+  if (!params.publickey) throw new Error("missing publickey");
+
+  const peer: Record<string, unknown> = {
+    endpoint: `${host.includes(":") ? `[${host}]` : host}:${port}`,
+    publicKey: params.publickey,
+  };
+  if (params.presharedkey) peer.preSharedKey = params.presharedkey;
+  if (params.keepalive) peer.keepAlive = Number(params.keepalive);
+
+  const settings: Record<string, unknown> = {
+    secretKey: safeDecode(userInfo),
+    peers: [peer],
+  };
+  if (params.address) settings.address = splitList(params.address);
+  if (params.reserved) {
+    settings.reserved = splitList(params.reserved).map(Number);
+  }
+  if (params.mtu) settings.mtu = Number(params.mtu);
+
+  return {
+    outbound: { protocol: "wireguard", tag: "proxy", settings },
+    remarks,
+  };
+}
+
+// socks://, http:// and https://, with plain user:pass userinfo or the
+// base64 form v2rayN writes
+function parseSocksOrHttp(
+  link: string,
+  scheme: string
+): { outbound: Outbound; remarks: string } {
+  const { userInfo, host, port, remarks } = splitLink(link, scheme, {
+    optionalUserInfo: true,
+  });
+
+  let credentials = safeDecode(userInfo);
+  if (credentials && !credentials.includes(":")) {
+    try {
+      const decoded = decodeBase64(credentials);
+      if (decoded.includes(":")) credentials = decoded;
+    } catch {
+      // A user name without a password
+    }
+  }
+  const server: Record<string, unknown> = { address: host, port };
+  if (credentials) {
+    const sep = credentials.indexOf(":");
+    server.users = [
+      sep === -1
+        ? { user: credentials }
+        : { user: credentials.slice(0, sep), pass: credentials.slice(sep + 1) },
+    ];
+  }
+
+  return {
+    outbound: {
+      protocol: scheme === "socks" ? "socks" : "http",
+      tag: "proxy",
+      settings: { servers: [server] },
+      streamSettings: scheme === "https" ? tlsOnly({}) : undefined,
+    },
+    remarks,
+  };
+}
+
+// Inverse of the mux and fragment parameters toLinks adds to VLESS, Trojan
+// and Shadowsocks links. A fragment becomes a freedom outbound the proxy
+// dials through, which is where Xray configures it.
+export function readLinkExtras(
+  outbound: Outbound,
+  params: Record<string, string>
+): Outbound[] {
+  if (params.mux === "1" || params.mux === "true") {
+    outbound.mux = { enabled: true };
+    if (params.mux_concurrency) {
+      outbound.mux.concurrency = Number(params.mux_concurrency);
+    }
+  }
+  const [length, interval, packets] = (params.fragment || "").split(",");
+  if (!packets) return [];
+  outbound.streamSettings = {
+    ...outbound.streamSettings,
+    sockopt: { dialerProxy: "fragment" },
+  };
+  return [
+    {
+      protocol: "freedom",
+      tag: "fragment",
+      settings: { fragment: { packets, length, interval } },
+    },
+  ];
+}
+
+export function parseLink(link: string): XrayConfig {
+  const scheme = link.slice(0, link.indexOf("://")).toLowerCase();
+
+  let parsed: ParsedLink;
+  switch (scheme) {
+    case "vless":
+      parsed = parseVless(link);
+      break;
+    case "vmess":
+      parsed = parseVmess(link);
+      break;
+    case "trojan":
+      parsed = parseTrojan(link);
+      break;
+    case "ss":
+      parsed = parseShadowsocks(link);
+      break;
+    case "hysteria2":
+    case "hy2":
+      parsed = parseHysteria2(link, scheme);
+      break;
+    case "tuic":
+      parsed = parseTuic(link);
+      break;
+    case "wireguard":
+      parsed = parseWireguard(link);
+      break;
+    case "socks":
+    case "http":
+    case "https":
+      parsed = parseSocksOrHttp(link, scheme);
+      break;
+    default:
+      throw new Error(`unsupported scheme "${scheme || link.slice(0, 10)}"`);
+  }
+
+  const dialers = parsed.params
+    ? readLinkExtras(parsed.outbound, parsed.params)
+    : [];
+  return {
+    remarks: parsed.remarks || undefined,
+    outbounds: [
+      parsed.outbound,
+      ...dialers,
+      { protocol: "freedom", tag: "direct" },
+      { protocol: "blackhole", tag: "block" },
+    ],
+  };
+}
+
+export function parseLinks(input: string): {
+  configs: XrayConfig[];
+  errors: string[];
+} {
+  const configs: XrayConfig[] = [];
+  const errors: string[] = [];
+
+  // Base64 subscriptions are unwrapped; anything else is read line by line
+  const lines =
+    readSubscription(input)?.links ??
+    input
+      .split(/\r?\n/)
+      .map((l) => l.trim())
+      .filter(Boolean);
+
+  for (let i = 0; i < lines.length; i++) {
+    try {
+      configs.push(parseLink(lines[i]));
+    } catch (e) {
+      errors.push(
+        `Link #${i + 1}: Error — ${e instanceof Error ? e.message : String(e)}`
+      );
+    }
+  }
+
+  return { configs, errors };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { convertToClash } from "./clash";
+import { toLinks } from "./links";
+import { countryFlag, parseCountryMap } from "./remarks";
+
+const CONFIG = JSON.stringify({
+  remarks: "Alice",
+  outbounds: [
+    {
+      protocol: "vless",
+      tag: "main",
+      settings: {
+        vnext: [
+          {
+            address: "de1.example.com",
+            port: 443,
+            users: [
+              {
+                id: "b831381d-6324-4d53-ad4f-8cda48b30811",
+                encryption: "none",
+                email: "alice@example.com",
+              },
+            ],
+          },
+        ],
+      },
+      streamSettings: {
+        network: "xhttp",
+        security: "reality",
+        realitySettings: {
+          serverName: "sni.example",
+          fingerprint: "chrome",
+          publicKey: "Z84J2IelR9ch3k8VtlVhhs5ycBUlXA7wHBWcBrjqnAw",
+        },
+      },
+    },
+  ],
+});
+
+const name = (link: string) => decodeURIComponent(link.split("#")[1]);
+
+describe("remarks templates", () => {
+  it("fills every placeholder", () => {
+    const { links } = toLinks(CONFIG, {
+      remarksTemplate:
+        "{flag} {country}-{index} · {security}/{network} {protocol} {address}:{port} {tag} {email} {remarks}",
+      countries: { ".example.com": "de" },
+    });
+    expect(name(links[0])).toBe(
+      "🇩🇪 DE-1 · reality/xhttp vless de1.example.com:443 main alice@example.com Alice"
+    );
+  });
+
+  it("drops empty placeholders and keeps unknown ones", () => {
+    const { links } = toLinks(CONFIG, {
+      remarksTemplate: "{flag} {remarks} {nope}",
+    });
+    expect(name(links[0])).toBe("Alice {nope}");
+  });
+
+  it("names Clash proxies the same way", () => {
+    const { yaml } = convertToClash(CONFIG, {
+      remarksTemplate: "{tag}-{port}",
+    });
+    expect(yaml).toContain('name: "main-443"');
+  });
+});
+
+describe("country maps", () => {
+  it("makes flags from country codes", () => {
+    expect(countryFlag("nl")).toBe("🇳🇱");
+    expect(countryFlag("xyz")).toBe("");
+  });
+
+  it("reads lines and JSON", () => {
+    expect(parseCountryMap("1.2.3.4 de\n# comment\n*.nl.example=NL")).toEqual({
+      countries: { "1.2.3.4": "DE", "*.nl.example": "NL" },
+      errors: [],
+    });
+    expect(parseCountryMap('{"1.2.3.4": "fr"}').countries).toEqual({
+      "1.2.3.4": "FR",
+    });
+    expect(parseCountryMap("1.2.3.4 Germany").errors).toEqual([
+      'line 1: "Germany" is not a two-letter country code',
+    ]);
+  });
+});
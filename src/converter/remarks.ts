@@ -0,0 +1,176 @@
+import type { Outbound } from "./types";
+
+// Values a remarks template can refer to as {name}
+export interface RemarksFields {
+  remarks: string;
+  protocol: string;
+  network: string;
+  security: string;
+  address: string;
+  port: string;
+  tag: string;
+  // 1-based position in the whole output
+  index: string;
+  email: string;
+  // ISO 3166 code and its flag emoji, from the user's address → country map
+  country: string;
+  flag: string;
+}
+
+export const REMARKS_PLACEHOLDERS = [
+  "remarks",
+  "protocol",
+  "network",
+  "security",
+  "address",
+  "port",
+  "tag",
+  "index",
+  "email",
+  "country",
+  "flag",
+] as const;
+
+// Address → two-letter country code. Keys are host names or IPs; a key
+// starting with "." or "*." also covers every subdomain.
+export type CountryMap = Record<string, string>;
+
+type Obj = Record<string, unknown>;
+
+// Address, port and user of a single-server outbound, as expandOutbound
+// leaves it
+function endpointOf(outbound: Outbound): {
+  address: string;
+  port: string;
+  email: string;
+} {
+  const settings = outbound.settings || {};
+  const first = (obj: Obj, key: string) => {
+    const list = obj[key];
+    return Array.isArray(list) && list.length > 0
+      ? (list[0] as Obj)
+      : undefined;
+  };
+
+  const peer = first(settings, "peers");
+  if (peer && typeof peer.endpoint === "string") {
+    const colon = peer.endpoint.lastIndexOf(":");
+    return {
+      address: peer.endpoint.slice(0, colon).replace(/^\[|\]$/g, ""),
+      port: peer.endpoint.slice(colon + 1),
+      email: "",
+    };
+  }
+  const server = first(settings, "vnext") || first(settings, "servers");
+  const source = server || settings;
+  const user = (server && first(server, "users")) || source;
+  return {
+    address: String(source.address ?? source.server ?? ""),
+    port: String(source.port ?? ""),
+    email: String(user.email ?? ""),
+  };
+}
+
+export function countryFlag(code: string): string {
+  if (!/^[a-z]{2}$/i.test(code)) return "";
+  // Regional indicator symbols A–Z start at U+1F1E6
+  return String.fromCodePoint(
+    ...Array.from(code.toUpperCase(), (c) => 0x1f1e6 + c.charCodeAt(0) - 65)
+  );
+}
+
+export function lookupCountry(address: string, countries: CountryMap): string {
+  const host = address.toLowerCase();
+  let best = "";
+  let bestLength = -1;
+  for (const [key, code] of Object.entries(countries)) {
+    const pattern = key.toLowerCase().replace(/^\*\./, ".");
+    if (pattern === host) return code.toUpperCase();
+    // The longest matching suffix wins, so a.de.example beats .example
+    if (
+      pattern.startsWith(".") &&
+      (host.endsWith(pattern) || host === pattern.slice(1)) &&
+      pattern.length > bestLength
+    ) {
+      best = code.toUpperCase();
+      bestLength = pattern.length;
+    }
+  }
+  return best;
+}
+
+// Reads a country map given as a JSON object or as "address CC" lines
+// ("=", "," and tabs work as separators too; # starts a comment)
+export function parseCountryMap(text: string): {
+  countries: CountryMap;
+  errors: string[];
+} {
+  const countries: CountryMap = {};
+  const errors: string[] = [];
+  const add = (address: string, code: string, where: string) => {
+    if (!/^[a-z]{2}$/i.test(code)) {
+      errors.push(`${where}: "${code}" is not a two-letter country code`);
+      return;
+    }
+    countries[address] = code.toUpperCase();
+  };
+
+  if (text.trim().startsWith("{")) {
+    try {
+      const parsed = JSON.parse(text) as Obj;
+      for (const [address, code] of Object.entries(parsed)) {
+        add(address, String(code), address);
+      }
+    } catch (e) {
+      errors.push(`Invalid JSON: ${e instanceof Error ? e.message : e}`);
+    }
+    return { countries, errors };
+  }
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.replace(/#.*/, "").trim();
+    if (!line) return;
+    const parts = line.split(/[\s=,]+/).filter(Boolean);
+    if (parts.length !== 2) {
+      errors.push(`line ${i + 1}: expected "address CC"`);
+      return;
+    }
+    add(parts[0], parts[1], `line ${i + 1}`);
+  });
+  return { countries, errors };
+}
+
+export function remarksFields(
+  outbound: Outbound,
+  remarks: string,
+  index: number,
+  countries: CountryMap = {}
+): RemarksFields {
+  const endpoint = endpointOf(outbound);
+  const country = lookupCountry(endpoint.address, countries);
+  return {
+    remarks,
+    protocol: outbound.protocol,
+    network: outbound.streamSettings?.network || "tcp",
+    security: outbound.streamSettings?.security || "none",
+    ...endpoint,
+    tag: outbound.tag || "",
+    index: String(index),
+    country,
+    flag: countryFlag(country),
+  };
+}
+
+// "{flag} {remarks} · {security}/{network}" → "🇩🇪 Alice · reality/xhttp".
+// Unknown placeholders are left as they are, so a typo shows up in the output
+// instead of vanishing; empty ones leave no double spaces behind.
+export function renderRemarks(template: string, fields: RemarksFields): string {
+  return template
+    .replace(/\{(\w+)\}/g, (match, key: string) =>
+      Object.prototype.hasOwnProperty.call(fields, key)
+        ? fields[key as keyof RemarksFields]
+        : match
+    )
+    .replace(/ {2,}/g, " ")
+    .trim();
+}
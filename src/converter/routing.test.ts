@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { toLinks } from "./links";
+import { analyzeRouting } from "./routing";
+import type { XrayConfig } from "./types";
+
+function trojan(tag: string, dialerProxy?: string) {
+  return {
+    protocol: "trojan",
+    tag,
+    settings: {
+      servers: [{ address: `${tag}.example`, port: 443, password: "pw" }],
+    },
+    streamSettings: dialerProxy ? { sockopt: { dialerProxy } } : undefined,
+  };
+}
+
+const CONFIG: XrayConfig = {
+  remarks: "home",
+  outbounds: [
+    { protocol: "freedom", tag: "direct" },
+    trojan("de-1", "relay"),
+    trojan("de-2", "relay"),
+    trojan("nl-1"),
+    trojan("relay"),
+    trojan("spare"),
+    trojan("us-1"),
+    { protocol: "blackhole", tag: "block" },
+  ],
+  routing: {
+    balancers: [
+      {
+        tag: "eu",
+        selector: ["de-", "nl-"],
+        strategy: { type: "leastPing" },
+        fallbackTag: "us-1",
+      },
+      { tag: "asia", selector: ["jp-"] },
+    ],
+    rules: [
+      { domain: ["geosite:private"], outboundTag: "direct" },
+      { domain: ["geosite:netflix", "geosite:hulu"], balancerTag: "eu" },
+      { network: "udp", outboundTag: "missing" },
+    ],
+  },
+};
+
+describe("analyzeRouting", () => {
+  const graph = analyzeRouting(CONFIG);
+  const node = (id: string) => graph.nodes.find((n) => n.id === id);
+
+  it("groups the exits a routed balancer selects", () => {
+    expect(graph.balancers[0]).toMatchObject({
+      tag: "eu",
+      strategy: "leastPing",
+      members: ["de-1", "de-2", "nl-1"],
+      routed: true,
+    });
+    expect(node("nl-1")).toMatchObject({ role: "exit", balancers: ["eu"] });
+    expect(node("us-1")?.routes).toEqual(['fallback of balancer "eu"']);
+  });
+
+  it("marks outbounds only reached through a chain as hops", () => {
+    expect(node("relay")).toMatchObject({
+      role: "hop",
+      hopFor: ["de-1", "de-2"],
+    });
+    expect(node("de-1")?.via).toBe("relay");
+    expect(node("spare")?.role).toBe("unused");
+  });
+
+  it("leaves utility outbounds out of the graph", () => {
+    expect(graph.nodes.map((n) => n.id)).not.toContain("direct");
+  });
+
+  it("reports rules and balancers that lead nowhere", () => {
+    expect(graph.issues).toEqual([
+      'balancer "asia" selects no outbound',
+      'rule #3 (network udp) routes to "missing", which no outbound has',
+    ]);
+  });
+
+  it("makes the first outbound the default exit", () => {
+    const single = analyzeRouting({ outbounds: [trojan("a"), trojan("b")] });
+    expect(single.nodes.map((n) => n.role)).toEqual(["exit", "unused"]);
+    expect(single.nodes[0].routes).toEqual(["default"]);
+  });
+});
+
+describe("excludeOutbounds", () => {
+  it("converts only the exits left selected", () => {
+    const result = toLinks(JSON.stringify(CONFIG), {
+      excludeOutbounds: {
+        'Config #1 "home"': ["de-1", "de-2", "relay", "spare", "us-1"],
+      },
+    });
+    expect(result.errors).toEqual([]);
+    // A single proxy left keeps the plain remarks
+    expect(result.links).toHaveLength(1);
+    expect(result.links[0]).toContain("nl-1.example");
+    expect(result.links[0].endsWith("#home")).toBe(true);
+  });
+});
@@ -0,0 +1,196 @@
+import { UTILITY_PROTOCOLS } from "./outbounds";
+import type { Outbound, XrayConfig } from "./types";
+
+type Obj = Record<string, unknown>;
+
+export interface RoutingNode {
+  // The outbound tag, or "#n" for untagged ones, as collectProxies labels them
+  id: string;
+  protocol: string;
+  // Why traffic reaches it directly, e.g. "default",
+  // 'rule #2 (domain geosite:netflix)' or 'fallback of balancer "auto"'
+  routes: string[];
+  // Routed balancers whose selector picks it
+  balancers: string[];
+  // The outbound it dials through, from sockopt.dialerProxy or proxySettings
+  via?: string;
+  // Outbounds that dial through it
+  hopFor: string[];
+  // exit: routing sends traffic to it. hop: it is only reached as the dialer
+  // of another outbound. unused: nothing reaches it.
+  role: "exit" | "hop" | "unused";
+}
+
+export interface RoutingBalancer {
+  tag: string;
+  strategy: string;
+  selector: string[];
+  // Proxy outbounds whose tag starts with one of the selector prefixes
+  members: string[];
+  fallback?: string;
+  // Whether any rule sends traffic to it
+  routed: boolean;
+}
+
+// Proxy outbounds and how the routing section reaches them
+export interface RoutingGraph {
+  nodes: RoutingNode[];
+  balancers: RoutingBalancer[];
+  issues: string[];
+}
+
+// Rule fields that decide what traffic a rule matches
+const RULE_MATCHERS = [
+  "domain",
+  "ip",
+  "port",
+  "sourcePort",
+  "network",
+  "source",
+  "user",
+  "inboundTag",
+  "protocol",
+  "attrs",
+];
+
+function isObject(value: unknown): value is Obj {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  return value === undefined || value === "" ? [] : [String(value)];
+}
+
+// 'rule #2 (domain geosite:netflix +3, network udp)'
+function describeRule(rule: Obj, index: number): string {
+  const name =
+    typeof rule.ruleTag === "string" && rule.ruleTag
+      ? `rule "${rule.ruleTag}"`
+      : `rule #${index + 1}`;
+  const parts = RULE_MATCHERS.flatMap((key) => {
+    const values = asList(rule[key]);
+    if (values.length === 0) return [];
+    const more = values.length > 1 ? ` +${values.length - 1}` : "";
+    return [`${key} ${values[0]}${more}`];
+  });
+  return parts.length > 0 ? `${name} (${parts.join(", ")})` : name;
+}
+
+function dialerOf(outbound: Outbound): string | undefined {
+  const dialer =
+    outbound.streamSettings?.sockopt?.dialerProxy ??
+    outbound.proxySettings?.tag;
+  return typeof dialer === "string" && dialer ? dialer : undefined;
+}
+
+// Works out which proxy outbounds routing.rules and routing.balancers send
+// traffic to. Xray sends unmatched traffic to the first outbound, so that one
+// is the default exit.
+export function analyzeRouting(config: XrayConfig): RoutingGraph {
+  const issues: string[] = [];
+  const outbounds = (Array.isArray(config?.outbounds) ? config.outbounds : [])
+    .map((ob, index) => ({ ob, index }))
+    .filter(({ ob }) => isObject(ob));
+  const tags = new Set(outbounds.flatMap(({ ob }) => (ob.tag ? [ob.tag] : [])));
+
+  const nodes: RoutingNode[] = [];
+  const byTag = new Map<string, RoutingNode>();
+  for (const { ob, index } of outbounds) {
+    if (UTILITY_PROTOCOLS.includes(ob.protocol)) continue;
+    const node: RoutingNode = {
+      id: ob.tag || `#${index + 1}`,
+      protocol: String(ob.protocol || ""),
+      routes: index === 0 ? ["default"] : [],
+      balancers: [],
+      via: dialerOf(ob),
+      hopFor: [],
+      role: "unused",
+    };
+    nodes.push(node);
+    if (ob.tag && !byTag.has(ob.tag)) byTag.set(ob.tag, node);
+  }
+
+  const routing = isObject(config?.routing) ? config.routing : {};
+  const balancers: RoutingBalancer[] = [];
+  for (const balancer of Array.isArray(routing.balancers)
+    ? routing.balancers
+    : []) {
+    if (!isObject(balancer) || typeof balancer.tag !== "string") continue;
+    const selector = asList(balancer.selector);
+    const strategy = isObject(balancer.strategy)
+      ? String(balancer.strategy.type || "random")
+      : "random";
+    const fallback =
+      typeof balancer.fallbackTag === "string" && balancer.fallbackTag
+        ? balancer.fallbackTag
+        : undefined;
+    const selected = [...tags].filter((tag) =>
+      selector.some((prefix) => tag.startsWith(prefix))
+    );
+    if (selected.length === 0) {
+      issues.push(`balancer "${balancer.tag}" selects no outbound`);
+    }
+    if (fallback && !tags.has(fallback)) {
+      issues.push(
+        `balancer "${balancer.tag}" falls back to "${fallback}", which no outbound has`
+      );
+    }
+    balancers.push({
+      tag: balancer.tag,
+      strategy,
+      selector,
+      members: selected.filter((tag) => byTag.has(tag)),
+      fallback,
+      routed: false,
+    });
+  }
+
+  const rules = Array.isArray(routing.rules) ? routing.rules : [];
+  rules.forEach((rule, i) => {
+    if (!isObject(rule)) return;
+    const description = describeRule(rule, i);
+    if (typeof rule.outboundTag === "string" && rule.outboundTag) {
+      if (!tags.has(rule.outboundTag)) {
+        issues.push(
+          `${description} routes to "${rule.outboundTag}", which no outbound has`
+        );
+      }
+      byTag.get(rule.outboundTag)?.routes.push(description);
+    } else if (typeof rule.balancerTag === "string" && rule.balancerTag) {
+      const balancer = balancers.find((b) => b.tag === rule.balancerTag);
+      if (!balancer) {
+        issues.push(
+          `${description} uses balancer "${rule.balancerTag}", which is not defined`
+        );
+      } else {
+        balancer.routed = true;
+      }
+    }
+  });
+
+  for (const balancer of balancers) {
+    if (!balancer.routed) continue;
+    for (const tag of balancer.members) {
+      byTag.get(tag)?.balancers.push(balancer.tag);
+    }
+    if (balancer.fallback) {
+      byTag
+        .get(balancer.fallback)
+        ?.routes.push(`fallback of balancer "${balancer.tag}"`);
+    }
+  }
+
+  for (const node of nodes) {
+    if (node.via) byTag.get(node.via)?.hopFor.push(node.id);
+  }
+  for (const node of nodes) {
+    if (node.routes.length > 0 || node.balancers.length > 0) {
+      node.role = "exit";
+    } else if (node.hopFor.length > 0) {
+      node.role = "hop";
+    }
+  }
+
+  return { nodes, balancers, issues };
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { convertToClash } from "./clash";
+import { toLinks } from "./links";
+import { convertToSingBox } from "./singbox";
+
+const TLS = {
+  security: "tls",
+  tlsSettings: { serverName: "sni.example", alpn: ["h3"] },
+};
+
+const CONFIG = JSON.stringify({
+  remarks: "quic",
+  outbounds: [
+    {
+      protocol: "hysteria2",
+      tag: "hy2",
+      settings: {
+        servers: [
+          {
+            address: "hy.example",
+            port: 443,
+            ports: "20000-30000",
+            password: "auth",
+            obfs: { type: "salamander", password: "obfs-pw" },
+          },
+        ],
+      },
+      streamSettings: TLS,
+    },
+    {
+      protocol: "tuic",
+      tag: "tuic",
+      settings: {
+        address: "tuic.example",
+        port: 443,
+        uuid: "b831381d-6324-4d53-ad4f-8cda48b30811",
+        password: "pw",
+        congestionControl: "bbr",
+      },
+      streamSettings: TLS,
+    },
+    {
+      protocol: "wireguard",
+      tag: "wg",
+      settings: {
+        secretKey: "yAnz5TF+lXXJte14tji3zlMNq+hd2rYUIgJBgB3fBmk=",
+        address: ["10.0.0.2/32", "fd00::2/128"],
+        peers: [
+          {
+            endpoint: "wg.example:51820",
+            publicKey: "xTIBA5rboUvnH4htodjb6e697QjLERt1NAB4mZqp8Dg=",
+            keepAlive: 25,
+          },
+        ],
+      },
+    },
+    {
+      protocol: "socks",
+      tag: "socks",
+      settings: {
+        servers: [
+          {
+            address: "socks.example",
+            port: 1080,
+            users: [{ user: "me", pass: "pw" }],
+          },
+        ],
+      },
+    },
+    {
+      protocol: "http",
+      tag: "https",
+      settings: { servers: [{ address: "http.example", port: 443 }] },
+      streamSettings: TLS,
+    },
+  ],
+});
+
+describe("non-vnext protocols", () => {
+  it("exports every one to Clash Meta", () => {
+    const result = convertToClash(CONFIG);
+    expect(result.errors).toEqual([]);
+    expect(result.count).toBe(5);
+    for (const line of [
+      'type: "hysteria2"',
+      'ports: "20000-30000"',
+      'obfs-password: "obfs-pw"',
+      'congestion-controller: "bbr"',
+      'ip: "10.0.0.2"',
+      'ipv6: "fd00::2"',
+      'type: "socks5"',
+      "tls: true",
+    ]) {
+      expect(result.yaml).toContain(line);
+    }
+  });
+
+  it("exports every one to sing-box, WireGuard as an endpoint", () => {
+    const result = convertToSingBox(CONFIG);
+    expect(result.errors).toEqual([]);
+    const config = JSON.parse(result.json);
+    const types = config.outbounds.map((o: { type: string }) => o.type);
+    expect(types).toEqual([
+      "selector",
+      "urltest",
+      "hysteria2",
+      "tuic",
+      "socks",
+      "http",
+      "direct",
+    ]);
+    expect(config.outbounds[2]).toMatchObject({
+      server_ports: ["20000:30000"],
+      obfs: { type: "salamander", password: "obfs-pw" },
+      tls: { enabled: true, server_name: "sni.example" },
+    });
+    expect(config.endpoints).toMatchObject([
+      {
+        type: "wireguard",
+        address: ["10.0.0.2/32", "fd00::2/128"],
+        peers: [{ address: "wg.example", port: 51820 }],
+      },
+    ]);
+    expect(config.outbounds[0].outbounds).toContain("quic [wg]");
+  });
+
+  it("takes a Hysteria2 port range without a port", () => {
+    const config = JSON.parse(CONFIG);
+    delete config.outbounds[0].settings.servers[0].port;
+    const text = JSON.stringify(config);
+    expect(toLinks(text).links[0]).toMatch(
+      /^hysteria2:\/\/auth@hy\.example:20000-30000\//
+    );
+    expect(convertToClash(text).yaml).toContain("port: 20000");
+    expect(JSON.parse(convertToSingBox(text).json).outbounds[2]).toMatchObject({
+      server_ports: ["20000:30000"],
+    });
+  });
+
+  it("converts Xray's native hysteria outbound", () => {
+    const text = JSON.stringify({
+      remarks: "native",
+      outbounds: [
+        {
+          protocol: "hysteria",
+          settings: { version: 2, address: "hy.example", port: 443 },
+          streamSettings: {
+            network: "hysteria",
+            hysteriaSettings: { version: 2, auth: "auth" },
+            ...TLS,
+          },
+        },
+      ],
+    });
+    const links = toLinks(text);
+    expect(links.errors).toEqual([]);
+    expect(links.reports).toEqual([]);
+    expect(links.links).toEqual([
+      "hysteria2://auth@hy.example:443/?sni=sni.example&alpn=h3#native",
+    ]);
+    expect(convertToClash(text).yaml).toContain('password: "auth"');
+    expect(JSON.parse(convertToSingBox(text).json).outbounds[2]).toMatchObject({
+      type: "hysteria2",
+      server_port: 443,
+      password: "auth",
+    });
+  });
+
+  it("gives the same links as before the shared readers", () => {
+    const result = toLinks(CONFIG);
+    expect(result.errors).toEqual([]);
+    expect(result.links[0]).toBe(
+      "hysteria2://auth@hy.example:20000-30000/?sni=sni.example&alpn=h3&obfs=salamander&obfs-password=obfs-pw#quic%20%5Bhy2%5D"
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import type { Outbound } from "./types";
+
+// The single server of the protocols Xray configures without vnext, read
+// once for every exporter. expandOutbound has already split the outbound,
+// and validateOutbound has checked the required fields.
+
+type Obj = Record<string, unknown>;
+
+export interface Hysteria2Server {
+  address: string;
+  port: number;
+  // Port hopping range such as "20000-30000" or "443,8443"
+  ports?: string;
+  auth?: string;
+  obfs?: { type: string; password?: string };
+}
+
+export interface TuicServer {
+  address: string;
+  port: number;
+  uuid: string;
+  password?: string;
+  congestionControl?: string;
+  udpRelayMode?: string;
+  alpn?: string[];
+}
+
+export interface WireguardPeer {
+  address: string;
+  port: number;
+  publicKey: string;
+  preSharedKey?: string;
+  keepAlive?: number;
+}
+
+export interface WireguardSettings {
+  secretKey: string;
+  // Interface addresses in CIDR form
+  localAddress: string[];
+  reserved?: number[];
+  mtu?: number;
+  peer: WireguardPeer;
+}
+
+export interface ProxyServer {
+  address: string;
+  port: number;
+  user?: string;
+  pass?: string;
+}
+
+function firstServer(outbound: Outbound): Obj {
+  const settings = (outbound.settings || {}) as Obj;
+  const servers = settings.servers as Obj[] | undefined;
+  return Array.isArray(servers) && servers.length > 0 ? servers[0] : settings;
+}
+
+function optional(value: unknown): string | undefined {
+  return value === undefined || value === null || value === ""
+    ? undefined
+    : String(value);
+}
+
+function list(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  return value ? String(value).split(",") : [];
+}
+
+export function readHysteria2(outbound: Outbound): Hysteria2Server {
+  const settings = (outbound.settings || {}) as Obj;
+  const server = firstServer(outbound);
+  const hysteria = (outbound.streamSettings?.hysteriaSettings || {}) as Obj;
+  const ports = optional(server.ports);
+  const result: Hysteria2Server = {
+    address: String(server.address),
+    port: Number(server.port || ports?.match(/^\d+/)?.[0]),
+    ports,
+    auth: optional(server.password ?? server.auth ?? hysteria.auth),
+  };
+
+  const obfs = (server.obfs || settings.obfs) as string | Obj | undefined;
+  if (typeof obfs === "string") {
+    result.obfs = {
+      type: obfs,
+      password: optional(server.obfsPassword ?? settings.obfsPassword),
+    };
+  } else if (obfs && obfs.type) {
+    result.obfs = {
+      type: String(obfs.type),
+      password: optional(obfs.password),
+    };
+  }
+  return result;
+}
+
+export function readTuic(outbound: Outbound): TuicServer {
+  const server = firstServer(outbound);
+  const alpn = list(server.alpn);
+  return {
+    address: String(server.address),
+    port: Number(server.port),
+    uuid: String(server.uuid),
+    password: optional(server.password),
+    congestionControl: optional(
+      server.congestionControl ?? server.congestion_control
+    ),
+    udpRelayMode: optional(server.udpRelayMode ?? server.udp_relay_mode),
+    alpn: alpn.length > 0 ? alpn : undefined,
+  };
+}
+
+export function readWireguard(outbound: Outbound): WireguardSettings {
+  const settings = (outbound.settings || {}) as Obj;
+  const peer = ((settings.peers as Obj[]) || [])[0] || {};
+  const endpoint = String(peer.endpoint || "");
+  const portIdx = endpoint.lastIndexOf(":");
+  if (portIdx <= 0) throw new Error(`peer endpoint "${endpoint}" has no port`);
+
+  const reserved = settings.reserved;
+  return {
+    secretKey: String(settings.secretKey),
+    localAddress: list(settings.address),
+    reserved: reserved ? list(reserved).map(Number) : undefined,
+    mtu: settings.mtu ? Number(settings.mtu) : undefined,
+    peer: {
+      address: endpoint.slice(0, portIdx).replace(/^\[|\]$/g, ""),
+      port: Number(endpoint.slice(portIdx + 1)),
+      publicKey: String(peer.publicKey),
+      preSharedKey: optional(peer.preSharedKey),
+      keepAlive: peer.keepAlive ? Number(peer.keepAlive) : undefined,
+    },
+  };
+}
+
+// SOCKS and HTTP; expandOutbound leaves at most one user on the server
+export function readProxyServer(outbound: Outbound): ProxyServer {
+  const server = firstServer(outbound);
+  const user = ((server.users as Obj[]) || [])[0];
+  return {
+    address: String(server.address),
+    port: Number(server.port),
+    user: optional(user?.user),
+    pass: optional(user?.pass),
+  };
+}
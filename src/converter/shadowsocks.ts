@@ -0,0 +1,123 @@
+import { extractStreamParams } from "./stream";
+import type { StreamSettings } from "./types";
+
+// Ciphers Xray accepts, mapped to the names SIP002 clients expect
+const SS_METHODS: Record<string, string> = {
+  "aes-128-gcm": "aes-128-gcm",
+  "aes-256-gcm": "aes-256-gcm",
+  "chacha20-poly1305": "chacha20-ietf-poly1305",
+  "chacha20-ietf-poly1305": "chacha20-ietf-poly1305",
+  "xchacha20-poly1305": "xchacha20-ietf-poly1305",
+  "xchacha20-ietf-poly1305": "xchacha20-ietf-poly1305",
+  none: "none",
+  plain: "none",
+  "2022-blake3-aes-128-gcm": "2022-blake3-aes-128-gcm",
+  "2022-blake3-aes-256-gcm": "2022-blake3-aes-256-gcm",
+  "2022-blake3-chacha20-poly1305": "2022-blake3-chacha20-poly1305",
+};
+
+export interface SsCredentials {
+  method: string;
+  password: string;
+}
+
+export interface SsPlugin {
+  name: string;
+  // Value-less options such as "tls" carry null
+  options: Array<[string, string | null]>;
+}
+
+export function isSupportedSsMethod(method: string): boolean {
+  return method.toLowerCase() in SS_METHODS;
+}
+
+export function isSs2022(method: string): boolean {
+  return method.startsWith("2022-blake3-");
+}
+
+// Validates the cipher and composes the SS-2022 multi-user password, where
+// the client sends the server key and its own user key joined with ":"
+export function resolveShadowsocks(
+  server: Record<string, unknown>
+): SsCredentials {
+  const raw = String(server.method ?? "").toLowerCase();
+  const method = SS_METHODS[raw];
+  if (!method) {
+    throw new Error(
+      `unsupported method "${server.method ?? ""}" (Xray accepts ${Object.keys(SS_METHODS).join(", ")})`
+    );
+  }
+
+  let password = String(server.password ?? "");
+  const users = server.users as Array<Record<string, unknown>> | undefined;
+  if (Array.isArray(users) && users.length > 0) {
+    if (!isSs2022(method)) {
+      throw new Error(`multi-user "users" needs a 2022-blake3 method`);
+    }
+    password = `${password}:${String(users[0].password ?? "")}`;
+  }
+  if (!password) throw new Error("password is missing");
+
+  return { method, password };
+}
+
+export function parsePluginOptions(
+  opts: string
+): Array<[string, string | null]> {
+  return opts
+    .split(";")
+    .filter(Boolean)
+    .map((opt) => {
+      const eq = opt.indexOf("=");
+      return eq === -1 ? [opt, null] : [opt.slice(0, eq), opt.slice(eq + 1)];
+    });
+}
+
+// SIP003 plugin matching the server fields or, failing that, the stream:
+// ws maps onto v2ray-plugin and an HTTP-header tcp stream onto simple-obfs
+export function resolveSsPlugin(
+  server: Record<string, unknown>,
+  stream: StreamSettings | undefined
+): SsPlugin | null {
+  if (server.plugin) {
+    return {
+      name: String(server.plugin),
+      options: parsePluginOptions(String(server.pluginOpts ?? "")),
+    };
+  }
+  if (!stream) return null;
+
+  const params = extractStreamParams(stream);
+  const tls = params.security === "tls";
+
+  if (params.type === "ws") {
+    const options: Array<[string, string | null]> = [["mode", "websocket"]];
+    if (tls) options.push(["tls", null]);
+    if (params.host) options.push(["host", params.host]);
+    if (params.path) options.push(["path", params.path]);
+    return { name: "v2ray-plugin", options };
+  }
+
+  if (params.type === "tcp" && !tls && params.security !== "reality") {
+    if (params.headerType !== "http") return null;
+    const options: Array<[string, string | null]> = [["obfs", "http"]];
+    if (params.host) options.push(["obfs-host", params.host]);
+    return { name: "obfs-local", options };
+  }
+
+  throw new Error(
+    `no SIP003 plugin can carry a ${params.type}/${params.security} stream`
+  );
+}
+
+export function formatSsPluginOptions(plugin: SsPlugin): string {
+  return plugin.options
+    .map(([k, v]) => (v === null ? k : `${k}=${v}`))
+    .join(";");
+}
+
+// SIP003 "name;opts" form used by the plugin= query
+export function formatSsPlugin(plugin: SsPlugin): string {
+  const opts = formatSsPluginOptions(plugin);
+  return opts ? `${plugin.name};${opts}` : plugin.name;
+}
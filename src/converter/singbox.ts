@@ -0,0 +1,429 @@
+import { findExtras, reportLostExtras, type Dialer } from "./extras";
+import type { JsonLocation } from "./jsonc";
+import {
+  mapConfigProxies,
+  parseConfig,
+  type ConfigInput,
+  type ConvertOptions,
+} from "./outbounds";
+import {
+  formatSsPluginOptions,
+  resolveShadowsocks,
+  resolveSsPlugin,
+} from "./shadowsocks";
+import {
+  readHysteria2,
+  readProxyServer,
+  readTuic,
+  readWireguard,
+} from "./servers";
+import { extractStreamParams, splitEarlyData, splitList } from "./stream";
+import type { Outbound } from "./types";
+import type { ConfigReport } from "./validate";
+
+type SingBoxOutbound = Record<string, unknown>;
+
+const TEST_URL = "https://www.gstatic.com/generate_204";
+
+function buildTls(
+  params: Record<string, string>,
+  warn: (msg: string) => void
+): SingBoxOutbound | undefined {
+  if (params.security !== "tls" && params.security !== "reality") {
+    return undefined;
+  }
+
+  const tls: SingBoxOutbound = { enabled: true };
+  if (params.sni) tls.server_name = params.sni;
+  if (params.alpn) tls.alpn = splitList(params.alpn);
+  if (params.allowInsecure) tls.insecure = true;
+  if (params.ech) {
+    // A DNS server instead of an inline ECHConfigList means "look it up"
+    tls.ech = /^[A-Za-z0-9+/=]+$/.test(params.ech)
+      ? {
+          enabled: true,
+          config: [
+            "-----BEGIN ECH CONFIGS-----",
+            params.ech,
+            "-----END ECH CONFIGS-----",
+          ],
+        }
+      : { enabled: true };
+  }
+  if (params.pcs) warn("pinned certificate hashes dropped (not in sing-box)");
+
+  let fingerprint = params.fp;
+  if (params.security === "reality") {
+    tls.reality = {
+      enabled: true,
+      public_key: params.pbk || "",
+      short_id: params.sid || "",
+    };
+    // sing-box refuses REALITY without uTLS
+    if (!fingerprint) {
+      fingerprint = "chrome";
+      warn(`has no fingerprint; using "chrome", which sing-box REALITY needs`);
+    }
+    if (params.spx) warn(`spiderX "${params.spx}" dropped (not in sing-box)`);
+    if (params.pqv) warn("REALITY mldsa65Verify dropped (not in sing-box)");
+  }
+  if (fingerprint) tls.utls = { enabled: true, fingerprint };
+
+  return tls;
+}
+
+function buildTransport(
+  params: Record<string, string>,
+  warn: (msg: string) => void
+): SingBoxOutbound | undefined {
+  const network = params.type || "tcp";
+
+  switch (network) {
+    case "tcp":
+      if (params.headerType === "http") {
+        return {
+          type: "http",
+          host: params.host ? splitList(params.host) : undefined,
+          path: params.path || "/",
+          method: "GET",
+        };
+      }
+      return undefined;
+    case "ws": {
+      const { path, earlyData } = splitEarlyData(params.path || "/");
+      return {
+        type: "ws",
+        path,
+        headers: params.host ? { Host: params.host } : undefined,
+        max_early_data: earlyData,
+        early_data_header_name:
+          earlyData !== undefined ? "Sec-WebSocket-Protocol" : undefined,
+      };
+    }
+    case "grpc":
+      if (params.mode === "multi") {
+        warn("gRPC multiMode dropped (sing-box only speaks gun mode)");
+      }
+      return { type: "grpc", service_name: params.serviceName || "" };
+    case "h2":
+    case "http":
+      return {
+        type: "http",
+        host: params.host ? splitList(params.host) : undefined,
+        path: params.path || "/",
+      };
+    case "httpupgrade":
+      return {
+        type: "httpupgrade",
+        host: params.host,
+        path: params.path || "/",
+      };
+    case "quic":
+      if (params.quicSecurity || params.key || params.headerType) {
+        warn("QUIC security, key and header dropped (not in sing-box)");
+      }
+      return { type: "quic" };
+    case "xhttp":
+      throw new Error(
+        `sing-box has no xhttp transport (mode "${params.mode || "auto"}" cannot be expressed)`
+      );
+    case "kcp":
+      throw new Error("sing-box has no mKCP transport");
+    default:
+      throw new Error(`sing-box has no "${network}" transport`);
+  }
+}
+
+// sockopt fields sing-box has a dial field for
+const SOCKOPT_FIELDS: Record<string, (value: unknown) => [string, unknown]> = {
+  tcpFastOpen: () => ["tcp_fast_open", true],
+  mark: (value) => ["routing_mark", Number(value)],
+  tcpMptcp: () => ["tcp_multi_path", true],
+  interface: (value) => ["bind_interface", String(value)],
+};
+
+// Carries what sing-box's dial fields can express of sockopt and the
+// dialerProxy chain, and warns about the rest. sing-box's multiplex is not
+// Xray's mux.cool, so mux is never carried over.
+function applyExtras(
+  result: SingBoxOutbound,
+  outbound: Outbound,
+  dialer: Dialer | undefined,
+  warn: (msg: string) => void
+) {
+  const carried: string[] = [];
+  const sockopt = outbound.streamSettings?.sockopt || {};
+  for (const [key, toField] of Object.entries(SOCKOPT_FIELDS)) {
+    if (!sockopt[key]) continue;
+    const [field, value] = toField(sockopt[key]);
+    result[field] = value;
+    carried.push(`sockopt.${key}`);
+  }
+  if (dialer?.name) {
+    result.detour = dialer.name;
+    carried.push("dialerProxy");
+  }
+  reportLostExtras(findExtras(outbound, dialer), carried, "sing-box", warn);
+}
+
+function toSingBoxOutbound(
+  outbound: Outbound,
+  tag: string,
+  warn: (msg: string) => void,
+  dialer?: Dialer
+): SingBoxOutbound {
+  const result = buildSingBoxOutbound(outbound, tag, warn);
+  applyExtras(result, outbound, dialer, warn);
+  return result;
+}
+
+function buildSingBoxOutbound(
+  outbound: Outbound,
+  tag: string,
+  warn: (msg: string) => void
+): SingBoxOutbound {
+  const settings = outbound.settings || {};
+  const params = outbound.streamSettings
+    ? extractStreamParams(outbound.streamSettings, warn)
+    : { type: "tcp", security: "none" };
+
+  let result: SingBoxOutbound;
+  switch (outbound.protocol) {
+    case "vless":
+    case "vmess": {
+      const server = (settings.vnext as Array<Record<string, unknown>>)[0];
+      const user = (server.users as Array<Record<string, unknown>>)[0];
+      result = {
+        type: outbound.protocol,
+        tag,
+        server: String(server.address),
+        server_port: Number(server.port),
+        uuid: String(user.id),
+      };
+      if (outbound.protocol === "vless") {
+        if (user.flow) result.flow = String(user.flow);
+        result.packet_encoding = "xudp";
+      } else {
+        result.security = String(user.security || "auto");
+        result.alter_id = Number(user.alterId || 0);
+      }
+      break;
+    }
+    case "trojan": {
+      const server = (settings.servers as Array<Record<string, unknown>>)[0];
+      result = {
+        type: "trojan",
+        tag,
+        server: String(server.address),
+        server_port: Number(server.port),
+        password: String(server.password),
+      };
+      break;
+    }
+    case "shadowsocks":
+    case "ss": {
+      const server = (settings.servers as Array<Record<string, unknown>>)[0];
+      const { method, password } = resolveShadowsocks(server);
+      // Shadowsocks has no stream layer in sing-box, only SIP003 plugins
+      result = {
+        type: "shadowsocks",
+        tag,
+        server: String(server.address),
+        server_port: Number(server.port),
+        method,
+        password,
+      };
+      if (server.uot) {
+        result.udp_over_tcp = {
+          enabled: true,
+          version: Number(server.UoTVersion || 1),
+        };
+      }
+      const plugin = resolveSsPlugin(server, outbound.streamSettings);
+      if (plugin) {
+        result.plugin =
+          plugin.name === "simple-obfs" ? "obfs-local" : plugin.name;
+        result.plugin_opts = formatSsPluginOptions(plugin);
+      }
+      return result;
+    }
+    // Hysteria2 and TUIC always run TLS over QUIC; there is no transport
+    case "hysteria2":
+    case "hysteria": {
+      const server = readHysteria2(outbound);
+      result = {
+        type: "hysteria2",
+        tag,
+        server: server.address,
+        password: server.auth,
+        obfs: server.obfs && {
+          type: server.obfs.type,
+          password: server.obfs.password,
+        },
+        tls: buildTls({ ...params, security: "tls" }, warn),
+      };
+      // sing-box lists hopping ranges as "20000:30000"
+      if (server.ports) {
+        result.server_ports = server.ports
+          .split(",")
+          .map((range) => range.replace("-", ":"));
+      } else {
+        result.server_port = server.port;
+      }
+      return result;
+    }
+    case "tuic": {
+      const server = readTuic(outbound);
+      const tls = buildTls({ ...params, security: "tls" }, warn)!;
+      if (server.alpn) tls.alpn = server.alpn;
+      return {
+        type: "tuic",
+        tag,
+        server: server.address,
+        server_port: server.port,
+        uuid: server.uuid,
+        password: server.password,
+        congestion_control: server.congestionControl,
+        udp_relay_mode: server.udpRelayMode,
+        tls,
+      };
+    }
+    // Goes to the endpoints list; see buildSingBoxConfig
+    case "wireguard": {
+      const wg = readWireguard(outbound);
+      return {
+        type: "wireguard",
+        tag,
+        address: wg.localAddress,
+        private_key: wg.secretKey,
+        mtu: wg.mtu,
+        peers: [
+          {
+            address: wg.peer.address,
+            port: wg.peer.port,
+            public_key: wg.peer.publicKey,
+            pre_shared_key: wg.peer.preSharedKey,
+            allowed_ips: ["0.0.0.0/0", "::/0"],
+            persistent_keepalive_interval: wg.peer.keepAlive,
+            reserved: wg.reserved,
+          },
+        ],
+      };
+    }
+    case "socks":
+    case "http": {
+      const server = readProxyServer(outbound);
+      if (params.type !== "tcp" || params.headerType === "http") {
+        throw new Error(
+          `sing-box has no ${outbound.protocol} over a "${params.type}" transport`
+        );
+      }
+      if (outbound.protocol === "socks") {
+        if (params.security !== "none") {
+          throw new Error("sing-box has no SOCKS over TLS");
+        }
+        return {
+          type: "socks",
+          tag,
+          server: server.address,
+          server_port: server.port,
+          version: "5",
+          username: server.user,
+          password: server.pass,
+        };
+      }
+      return {
+        type: "http",
+        tag,
+        server: server.address,
+        server_port: server.port,
+        username: server.user,
+        password: server.pass,
+        tls: buildTls(params, warn),
+      };
+    }
+    default:
+      throw new Error(`unsupported protocol "${outbound.protocol}"`);
+  }
+
+  const tls = buildTls(params, warn);
+  if (tls) result.tls = tls;
+  const transport = buildTransport(params, warn);
+  if (transport) result.transport = transport;
+  return result;
+}
+
+// WireGuard is an endpoint since sing-box 1.11; groups reach it by tag all
+// the same
+export function buildSingBoxConfig(items: SingBoxOutbound[]) {
+  const tags = items.map((o) => o.tag as string);
+  const endpoints = items.filter((o) => o.type === "wireguard");
+  const outbounds = items.filter((o) => o.type !== "wireguard");
+  return {
+    log: { level: "info" },
+    inbounds: [
+      {
+        type: "mixed",
+        tag: "mixed-in",
+        listen: "127.0.0.1",
+        listen_port: 2080,
+      },
+    ],
+    outbounds: [
+      {
+        type: "selector",
+        tag: "proxy",
+        outbounds: ["auto", ...tags, "direct"],
+        default: "auto",
+      },
+      {
+        type: "urltest",
+        tag: "auto",
+        outbounds: tags,
+        url: TEST_URL,
+        interval: "3m",
+      },
+      ...outbounds,
+      { type: "direct", tag: "direct" },
+    ],
+    endpoints: endpoints.length > 0 ? endpoints : undefined,
+    route: {
+      rules: [{ ip_is_private: true, outbound: "direct" }],
+      final: "proxy",
+      auto_detect_interface: true,
+    },
+  };
+}
+
+export function convertToSingBox(
+  input: string | ConfigInput[],
+  options: ConvertOptions = {}
+): {
+  json: string;
+  count: number;
+  errors: string[];
+  warnings: string[];
+  reports: ConfigReport[];
+  syntaxError?: JsonLocation;
+} {
+  const loaded = parseConfig(input, options);
+  const { items, errors, warnings, reports } = mapConfigProxies(
+    loaded.configs,
+    toSingBoxOutbound,
+    options
+  );
+  errors.unshift(...loaded.errors);
+  warnings.unshift(...loaded.warnings);
+
+  if (items.length === 0) {
+    const { syntaxError } = loaded;
+    return { json: "", count: 0, errors, warnings, reports, syntaxError };
+  }
+  return {
+    json: JSON.stringify(buildSingBoxConfig(items), null, 2),
+    count: items.length,
+    errors,
+    warnings,
+    reports,
+  };
+}
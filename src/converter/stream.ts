@@ -0,0 +1,443 @@
+import type { StreamSettings } from "./types";
+
+export function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+// Undoes the ?ed= path convention for clients with separate early-data fields
+export function splitEarlyData(path: string): {
+  path: string;
+  earlyData?: number;
+} {
+  const match = path.match(/[?&]ed=(\d+)/);
+  if (!match) return { path };
+  const rest = path.replace(match[0], "").replace(/^([^?]*)&/, "$1?");
+  return { path: rest || "/", earlyData: Number(match[1]) };
+}
+
+export function buildQueryParams(params: Record<string, string>): string {
+  const parts: string[] = [];
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== "") {
+      parts.push(`${key}=${encodeURIComponent(value)}`);
+    }
+  }
+  return parts.join("&");
+}
+
+// Server-side style configs list several candidates; a link carries exactly
+// one, so take the first and say what was left out
+export function firstOf(
+  value: unknown,
+  field: string,
+  warn: (msg: string) => void
+): string | undefined {
+  if (!Array.isArray(value)) return value ? String(value) : undefined;
+  const items = value.filter((v) => v !== undefined && v !== null);
+  if (items.length > 1) {
+    warn(
+      `${field} has ${items.length} entries; using "${items[0]}", dropping ${items
+        .slice(1)
+        .map((v) => `"${v}"`)
+        .join(", ")}`
+    );
+  }
+  return items.length > 0 ? String(items[0]) : undefined;
+}
+
+function joinList(value: unknown): string {
+  return Array.isArray(value) ? value.join(",") : String(value);
+}
+
+// uTLS fingerprints Xray accepts for fp=
+export const UTLS_FINGERPRINTS = [
+  "chrome",
+  "firefox",
+  "safari",
+  "ios",
+  "android",
+  "edge",
+  "360",
+  "qq",
+  "random",
+  "randomized",
+  "randomizednoalpn",
+  "unsafe",
+];
+
+export interface StreamParam {
+  // streamSettings field the parameter maps to, keyed by network or security
+  // where that decides it
+  field: string | Record<string, string>;
+  explanation: string;
+  // Only meaningful with these networks or securities
+  networks?: string[];
+  securities?: string[];
+}
+
+const HTTP_NETWORKS = ["ws", "httpupgrade", "xhttp", "h2", "http", "tcp"];
+
+// Every query parameter extractStreamParams writes and parseLink reads back,
+// with the field it stands for. The link inspector explains links from this
+// table, so keep it in step with both.
+export const STREAM_PARAMS: Record<string, StreamParam> = {
+  type: {
+    field: "network",
+    explanation: "Transport the proxy traffic travels over",
+  },
+  security: {
+    field: "security",
+    explanation: "Encryption layer around the transport: none, tls or reality",
+  },
+  sni: {
+    field: {
+      tls: "tlsSettings.serverName",
+      reality: "realitySettings.serverName",
+    },
+    explanation:
+      "Server name sent in the TLS handshake; with REALITY, the site being impersonated",
+    securities: ["tls", "reality"],
+  },
+  fp: {
+    field: {
+      tls: "tlsSettings.fingerprint",
+      reality: "realitySettings.fingerprint",
+    },
+    explanation:
+      "uTLS fingerprint: the browser whose TLS handshake is imitated",
+    securities: ["tls", "reality"],
+  },
+  alpn: {
+    field: "tlsSettings.alpn",
+    explanation: "Application protocols offered in the TLS handshake",
+    securities: ["tls"],
+  },
+  allowInsecure: {
+    field: "tlsSettings.allowInsecure",
+    explanation:
+      "Skips certificate verification, so anyone on the path can intercept",
+    securities: ["tls"],
+  },
+  pcs: {
+    field: "tlsSettings.pinnedPeerCertificateChainSha256",
+    explanation: "SHA-256 hashes of the server certificate chain to pin",
+    securities: ["tls"],
+  },
+  ech: {
+    field: "tlsSettings.echConfigList",
+    explanation: "Encrypted Client Hello config, hiding the real server name",
+    securities: ["tls"],
+  },
+  pbk: {
+    field: "realitySettings.publicKey",
+    explanation: "The REALITY server's x25519 public key",
+    securities: ["reality"],
+  },
+  sid: {
+    field: "realitySettings.shortId",
+    explanation: "REALITY short ID; must be one of the server's shortIds",
+    securities: ["reality"],
+  },
+  spx: {
+    field: "realitySettings.spiderX",
+    explanation: "Path the client requests first when REALITY falls back",
+    securities: ["reality"],
+  },
+  pqv: {
+    field: "realitySettings.mldsa65Verify",
+    explanation: "ML-DSA-65 key for post-quantum verification of the server",
+    securities: ["reality"],
+  },
+  path: {
+    field: {
+      ws: "wsSettings.path",
+      httpupgrade: "httpupgradeSettings.path",
+      xhttp: "xhttpSettings.path",
+      h2: "httpSettings.path",
+      http: "httpSettings.path",
+      tcp: "tcpSettings.header.request.path[0]",
+    },
+    explanation: "HTTP request path; on ws, ?ed=N turns on early data",
+    networks: HTTP_NETWORKS,
+  },
+  host: {
+    field: {
+      ws: "wsSettings.host",
+      httpupgrade: "httpupgradeSettings.host",
+      xhttp: "xhttpSettings.host",
+      h2: "httpSettings.host",
+      http: "httpSettings.host",
+      tcp: "tcpSettings.header.request.headers.Host",
+    },
+    explanation: "HTTP Host header; a CDN routes the request by it",
+    networks: HTTP_NETWORKS,
+  },
+  serviceName: {
+    field: "grpcSettings.serviceName",
+    explanation: "gRPC service name, the path the server listens on",
+    networks: ["grpc"],
+  },
+  mode: {
+    field: { grpc: "grpcSettings.multiMode", xhttp: "xhttpSettings.mode" },
+    explanation:
+      "gun or multi for gRPC; auto, packet-up, stream-up or stream-one for XHTTP",
+    networks: ["grpc", "xhttp"],
+  },
+  authority: {
+    field: "grpcSettings.authority",
+    explanation: "gRPC :authority header",
+    networks: ["grpc"],
+  },
+  headerType: {
+    field: {
+      tcp: "tcpSettings.header.type",
+      quic: "quicSettings.header.type",
+      kcp: "kcpSettings.header.type",
+    },
+    explanation:
+      "Packet disguise: http for tcp; srtp, utp, wechat-video, dtls or wireguard for mKCP and QUIC",
+    networks: ["tcp", "quic", "kcp"],
+  },
+  seed: {
+    field: "kcpSettings.seed",
+    explanation: "mKCP obfuscation password",
+    networks: ["kcp"],
+  },
+  quicSecurity: {
+    field: "quicSettings.security",
+    explanation: "QUIC packet encryption method",
+    networks: ["quic"],
+  },
+  key: {
+    field: "quicSettings.key",
+    explanation: "QUIC packet encryption key",
+    networks: ["quic"],
+  },
+  extra: {
+    field: "xhttpSettings.extra",
+    explanation:
+      "Remaining XHTTP settings as JSON: padding, multiplexing, downloadSettings",
+    networks: ["xhttp"],
+  },
+};
+
+// Full streamSettings path a parameter sets with this network and security,
+// or "" when none of them uses it
+export function streamParamField(
+  param: string,
+  network: string,
+  security: string
+): string {
+  const { field } = STREAM_PARAMS[param];
+  if (typeof field === "string") return `streamSettings.${field}`;
+  const chosen = field[network] || field[security];
+  return chosen ? `streamSettings.${chosen}` : "";
+}
+
+// Why a stream parameter has no effect here, or null when it does
+export function streamParamIgnored(
+  param: string,
+  network: string,
+  security: string,
+  headerType: string
+): string | null {
+  const { networks, securities } = STREAM_PARAMS[param];
+  if (securities && !securities.includes(security)) {
+    return `only applies with security=${securities.join(" or ")} (this link has ${security})`;
+  }
+  if (networks && !networks.includes(network)) {
+    return `only applies with type=${networks.join(", ")} (this link has ${network})`;
+  }
+  if (
+    network === "tcp" &&
+    (param === "path" || param === "host") &&
+    headerType !== "http"
+  ) {
+    return "only applies to tcp with headerType=http";
+  }
+  return null;
+}
+
+const NETWORK_ALIASES: Record<string, string> = {
+  raw: "tcp",
+  mkcp: "kcp",
+  splithttp: "xhttp",
+};
+
+export function extractStreamParams(
+  stream: StreamSettings,
+  warn: (msg: string) => void = () => {}
+): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  // Network type under the name links use; Xray also accepts raw for tcp,
+  // mkcp for kcp and splithttp, the old name of xhttp
+  const network =
+    NETWORK_ALIASES[stream.network || ""] || stream.network || "tcp";
+  params.type = network;
+
+  // Security
+  const security = stream.security || "none";
+  params.security = security;
+
+  // Reality settings
+  if (security === "reality" && stream.realitySettings) {
+    const rs = stream.realitySettings;
+    const sni = rs.serverName
+      ? String(rs.serverName)
+      : firstOf(rs.serverNames, "realitySettings.serverNames", warn);
+    if (sni) params.sni = sni;
+    if (rs.fingerprint) params.fp = String(rs.fingerprint);
+    // Newer Xray also calls the client-side public key "password"
+    const publicKey = rs.publicKey ?? rs.password;
+    if (publicKey) params.pbk = String(publicKey);
+    const sid =
+      rs.shortId !== undefined
+        ? String(rs.shortId)
+        : firstOf(rs.shortIds, "realitySettings.shortIds", warn);
+    if (sid) params.sid = sid;
+    if (rs.spiderX) params.spx = String(rs.spiderX);
+    if (rs.mldsa65Verify) params.pqv = String(rs.mldsa65Verify);
+  }
+
+  // TLS settings
+  if (security === "tls" && stream.tlsSettings) {
+    const ts = stream.tlsSettings;
+    if (ts.serverName) params.sni = String(ts.serverName);
+    if (ts.fingerprint) params.fp = String(ts.fingerprint);
+    if (ts.alpn) params.alpn = joinList(ts.alpn);
+    if (ts.allowInsecure) params.allowInsecure = "1";
+    if (ts.pinnedPeerCertificateChainSha256) {
+      params.pcs = joinList(ts.pinnedPeerCertificateChainSha256);
+    }
+    if (ts.echConfigList) params.ech = String(ts.echConfigList);
+  }
+
+  // Network-specific settings
+  if (network === "ws" && stream.wsSettings) {
+    const ws = stream.wsSettings as Record<string, unknown>;
+    let path = ws.path ? String(ws.path) : "";
+    // Early data travels in the path as ?ed=, the form Xray and clients read
+    if (ws.maxEarlyData && !/[?&]ed=/.test(path)) {
+      path = `${path || "/"}${path.includes("?") ? "&" : "?"}ed=${ws.maxEarlyData}`;
+      const header = ws.earlyDataHeaderName;
+      if (header && header !== "Sec-WebSocket-Protocol") {
+        warn(
+          `earlyDataHeaderName "${header}" dropped (links imply Sec-WebSocket-Protocol)`
+        );
+      }
+    }
+    if (path) params.path = path;
+    if (ws.host) params.host = String(ws.host);
+    else if (ws.headers && typeof ws.headers === "object") {
+      const headers = ws.headers as Record<string, unknown>;
+      if (headers.Host) params.host = String(headers.Host);
+    }
+  }
+
+  if (network === "httpupgrade" && stream.httpupgradeSettings) {
+    const hu = stream.httpupgradeSettings as Record<string, unknown>;
+    if (hu.path) params.path = String(hu.path);
+    if (hu.host) params.host = String(hu.host);
+    else if (hu.headers && typeof hu.headers === "object") {
+      const headers = hu.headers as Record<string, unknown>;
+      if (headers.Host) params.host = String(headers.Host);
+    }
+  }
+
+  if (network === "grpc" && stream.grpcSettings) {
+    const grpc = stream.grpcSettings as Record<string, unknown>;
+    if (grpc.serviceName) params.serviceName = String(grpc.serviceName);
+    if (grpc.mode) params.mode = String(grpc.mode);
+    else if (grpc.multiMode) params.mode = "multi";
+    if (grpc.authority) params.authority = String(grpc.authority);
+  }
+
+  const tcpSettings = stream.tcpSettings || stream.rawSettings;
+  if (network === "tcp" && tcpSettings) {
+    const tcp = tcpSettings as Record<string, unknown>;
+    if (tcp.header && typeof tcp.header === "object") {
+      const header = tcp.header as Record<string, unknown>;
+      if (header.type) params.headerType = String(header.type);
+      if (header.request && typeof header.request === "object") {
+        const req = header.request as Record<string, unknown>;
+        if (req.path) {
+          const pathArr = req.path;
+          if (Array.isArray(pathArr) && pathArr.length > 0)
+            params.path = String(pathArr[0]);
+        }
+        if (req.headers && typeof req.headers === "object") {
+          const headers = req.headers as Record<string, unknown>;
+          if (headers.Host) {
+            const host = headers.Host;
+            if (Array.isArray(host) && host.length > 0)
+              params.host = String(host[0]);
+            else params.host = String(host);
+          }
+        }
+      }
+    }
+  }
+
+  const xhttpSettings = stream.xhttpSettings || stream.splithttpSettings;
+  if (network === "xhttp" && xhttpSettings) {
+    const { path, host, mode, extra, ...rest } = xhttpSettings as Record<
+      string,
+      unknown
+    >;
+    if (path) params.path = String(path);
+    if (host) params.host = String(host);
+    if (mode) params.mode = String(mode);
+    // Everything else (xPaddingBytes, noGRPCHeader, scMaxEachPostBytes,
+    // downloadSettings, ...) rides in the URL-encoded JSON extra= param
+    const merged = {
+      ...(extra && typeof extra === "object" ? extra : {}),
+      ...rest,
+    };
+    if (Object.keys(merged).length > 0) params.extra = JSON.stringify(merged);
+  }
+
+  if (
+    (network === "h2" || network === "http") &&
+    (stream.httpSettings || stream.h2Settings)
+  ) {
+    const h2 = (stream.httpSettings ||
+      (stream as Record<string, unknown>).h2Settings) as Record<
+      string,
+      unknown
+    >;
+    if (h2) {
+      if (h2.path) params.path = String(h2.path);
+      if (h2.host) {
+        const host = h2.host;
+        if (Array.isArray(host) && host.length > 0)
+          params.host = String(host[0]);
+        else params.host = String(host);
+      }
+    }
+  }
+
+  if (network === "quic" && stream.quicSettings) {
+    const quic = stream.quicSettings as Record<string, unknown>;
+    if (quic.security) params.quicSecurity = String(quic.security);
+    if (quic.key) params.key = String(quic.key);
+    if (quic.header && typeof quic.header === "object") {
+      const header = quic.header as Record<string, unknown>;
+      if (header.type) params.headerType = String(header.type);
+    }
+  }
+
+  if (network === "kcp" && stream.kcpSettings) {
+    const kcp = stream.kcpSettings as Record<string, unknown>;
+    if (kcp.seed) params.seed = String(kcp.seed);
+    if (kcp.header && typeof kcp.header === "object") {
+      const header = kcp.header as Record<string, unknown>;
+      if (header.type) params.headerType = String(header.type);
+    }
+  }
+
+  return params;
+}
@@ -0,0 +1,115 @@
+import { decodeBase64, encodeBase64 } from "../utils/base64";
+
+export type SubscriptionFormat = "plain" | "base64";
+
+export interface SubscriptionHeaders {
+  profileTitle?: string;
+  // Hours between automatic refreshes
+  updateInterval?: number;
+  userInfo?: {
+    upload?: number;
+    download?: number;
+    total?: number;
+    // Unix timestamp in seconds
+    expire?: number;
+  };
+}
+
+// Header lines go at the top of the body, since a static host such as
+// GitHub Pages can't send them as HTTP response headers
+export function buildSubscriptionHeaders(
+  headers: SubscriptionHeaders
+): string[] {
+  const lines: string[] = [];
+
+  const title = headers.profileTitle?.trim();
+  if (title) {
+    // Clients only read non-ASCII titles behind the base64: prefix
+    const value = /^[\x20-\x7e]*$/.test(title)
+      ? title
+      : `base64:${encodeBase64(title)}`;
+    lines.push(`#profile-title: ${value}`);
+  }
+
+  if (headers.updateInterval && headers.updateInterval > 0) {
+    lines.push(
+      `#profile-update-interval: ${Math.round(headers.updateInterval)}`
+    );
+  }
+
+  const info = headers.userInfo;
+  if (info) {
+    const parts: string[] = [];
+    for (const key of ["upload", "download", "total", "expire"] as const) {
+      const value = info[key];
+      if (value !== undefined && Number.isFinite(value) && value >= 0) {
+        parts.push(`${key}=${Math.floor(value)}`);
+      }
+    }
+    if (parts.length > 0) {
+      lines.push(`#subscription-userinfo: ${parts.join("; ")}`);
+    }
+  }
+
+  return lines;
+}
+
+export function buildSubscription(
+  links: string[],
+  format: SubscriptionFormat,
+  headers: SubscriptionHeaders = {}
+): string {
+  const body = [...buildSubscriptionHeaders(headers), ...links].join("\n");
+  return format === "base64" ? encodeBase64(body) : body;
+}
+
+const LINK_RE = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+export interface SubscriptionBody {
+  links: string[];
+  // The # header lines, e.g. #profile-title, as written
+  headers: string[];
+  // Whether the body came base64-encoded
+  encoded: boolean;
+}
+
+// Reads a plain or base64 subscription body (or a pasted link list) into its
+// links and header lines. Returns null when the text is neither, e.g. a JSON
+// config.
+export function readSubscription(text: string): SubscriptionBody | null {
+  const body = text.replace(/^\uFEFF/, "").trim();
+  if (!body || /^[[{/]/.test(body)) return null;
+
+  const readLines = (content: string, encoded: boolean) => {
+    const lines = content
+      .split(/\r?\n/)
+      .map((l) => l.trim())
+      .filter(Boolean);
+    return {
+      links: lines.filter((l) => !l.startsWith("#")),
+      headers: lines.filter((l) => l.startsWith("#")),
+      encoded,
+    };
+  };
+
+  const plain = readLines(body, false);
+  if (plain.links.some((l) => LINK_RE.test(l))) return plain;
+
+  let decoded: string;
+  try {
+    decoded = decodeBase64(body.replace(/\s+/g, ""));
+  } catch {
+    return null;
+  }
+  const result = readLines(decoded, true);
+  return result.links.some((l) => LINK_RE.test(l)) ? result : null;
+}
+
+export function subscriptionFileName(headers: SubscriptionHeaders): string {
+  const slug = (headers.profileTitle || "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "subscription"}.txt`;
+}
@@ -0,0 +1,37 @@
+export interface XrayConfig {
+  remarks?: string;
+  outbounds?: Outbound[];
+  [key: string]: unknown;
+}
+
+export interface Outbound {
+  protocol: string;
+  tag?: string;
+  settings?: Record<string, unknown>;
+  streamSettings?: StreamSettings;
+  // Xray's mux.cool: enabled, concurrency, xudpConcurrency, xudpProxyUDP443
+  mux?: Record<string, unknown>;
+  // The older way to chain outbounds; sockopt.dialerProxy replaced it
+  proxySettings?: { tag?: string; [key: string]: unknown };
+}
+
+export interface StreamSettings {
+  network?: string;
+  security?: string;
+  realitySettings?: Record<string, unknown>;
+  tlsSettings?: Record<string, unknown>;
+  wsSettings?: Record<string, unknown>;
+  grpcSettings?: Record<string, unknown>;
+  tcpSettings?: Record<string, unknown>;
+  // Name of tcpSettings since Xray 24.9, with network "raw"
+  rawSettings?: Record<string, unknown>;
+  xhttpSettings?: Record<string, unknown>;
+  splithttpSettings?: Record<string, unknown>;
+  httpupgradeSettings?: Record<string, unknown>;
+  httpSettings?: Record<string, unknown>;
+  quicSettings?: Record<string, unknown>;
+  kcpSettings?: Record<string, unknown>;
+  // Socket options: dialerProxy, tcpFastOpen, mark, tcpMptcp, interface, ...
+  sockopt?: Record<string, unknown>;
+  [key: string]: unknown;
+}
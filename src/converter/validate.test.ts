@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { validateConfig } from "./validate";
+
+function errorsOf(outbound: unknown) {
+  return validateConfig({ outbounds: [outbound] })
+    .filter((d) => d.severity === "error")
+    .map(({ path, message }) => ({ path, message }));
+}
+
+const vnext = (user: Record<string, unknown>, port: unknown = 443) => ({
+  vnext: [{ address: "srv.example", port, users: [user] }],
+});
+
+describe("validateConfig", () => {
+  it("points at a bad VMess id and port", () => {
+    expect(
+      errorsOf({
+        protocol: "vmess",
+        settings: vnext({ id: "not-a-uuid" }, 70000),
+      })
+    ).toEqual([
+      {
+        path: "outbounds[0].settings.vnext[0].port",
+        message: "port 70000 out of range",
+      },
+      {
+        path: "outbounds[0].settings.vnext[0].users[0].id",
+        message: "not a UUID",
+      },
+    ]);
+  });
+
+  it("asks for the REALITY public key", () => {
+    const errors = errorsOf({
+      protocol: "vless",
+      settings: vnext({ id: "b831381d-6324-4d53-ad4f-8cda48b30811" }),
+      streamSettings: {
+        security: "reality",
+        realitySettings: { serverName: "sni.example", privateKey: "k" },
+      },
+    });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].path).toBe("outbounds[0].streamSettings.realitySettings");
+    expect(errors[0].message).toContain("derive the public key");
+  });
+
+  it("rejects Vision flow over ws", () => {
+    const errors = errorsOf({
+      protocol: "vless",
+      settings: vnext({
+        id: "b831381d-6324-4d53-ad4f-8cda48b30811",
+        flow: "xtls-rprx-vision",
+      }),
+      streamSettings: { network: "ws", security: "tls" },
+    });
+    expect(errors.map((e) => e.path)).toEqual([
+      "outbounds[0].settings.vnext[0].users[0].flow",
+    ]);
+  });
+
+  it("takes a Hysteria2 port range in place of the port", () => {
+    const hysteria2 = (ports: string) => ({
+      protocol: "hysteria2",
+      settings: { servers: [{ address: "hy.example", ports }] },
+    });
+    expect(errorsOf(hysteria2("20000-30000,443"))).toEqual([]);
+    expect(errorsOf(hysteria2("20000:30000"))).toEqual([
+      {
+        path: "outbounds[0].settings.servers[0].ports",
+        message: '"20000:30000" is not a port range such as 20000-30000',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,414 @@
+import { isSupportedSsMethod } from "./shadowsocks";
+import type { Outbound, StreamSettings, XrayConfig } from "./types";
+
+export interface Diagnostic {
+  // JSON path inside the config, e.g. outbounds[0].settings.vnext[0].port
+  path: string;
+  message: string;
+  severity: "error" | "warning";
+}
+
+// Diagnostics of one input config, labelled the way error messages are
+export interface ConfigReport {
+  label: string;
+  diagnostics: Diagnostic[];
+}
+
+type Obj = Record<string, unknown>;
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const NETWORKS = [
+  "tcp",
+  "raw",
+  "ws",
+  "grpc",
+  "xhttp",
+  "splithttp",
+  "httpupgrade",
+  "h2",
+  "http",
+  "quic",
+  "kcp",
+  "mkcp",
+  // Xray's native Hysteria 2, configured in hysteriaSettings
+  "hysteria",
+];
+
+// Hysteria2 port hopping: "20000-30000", "443,8443" or a mix
+const PORT_RANGES_RE = /^\d+(-\d+)?(,\d+(-\d+)?)*$/;
+
+const VLESS_FLOWS = ["", "xtls-rprx-vision", "xtls-rprx-vision-udp443"];
+
+const VMESS_SECURITY = [
+  "auto",
+  "aes-128-gcm",
+  "chacha20-poly1305",
+  "none",
+  "zero",
+];
+
+function isObject(value: unknown): value is Obj {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === "";
+}
+
+type Collector = ReturnType<typeof createCollector>;
+
+function createCollector() {
+  const items: Diagnostic[] = [];
+
+  const error = (path: string, message: string) => {
+    items.push({ path, message, severity: "error" });
+  };
+  const warning = (path: string, message: string) => {
+    items.push({ path, message, severity: "warning" });
+  };
+
+  const required = (obj: Obj, key: string, path: string): boolean => {
+    if (isBlank(obj[key])) {
+      error(`${path}.${key}`, "missing");
+      return false;
+    }
+    return true;
+  };
+
+  const port = (obj: Obj, key: string, path: string) => {
+    if (!required(obj, key, path)) return;
+    const value = Number(obj[key]);
+    if (!Number.isInteger(value) || value < 1 || value > 65535) {
+      error(`${path}.${key}`, `port ${String(obj[key])} out of range`);
+    }
+  };
+
+  // Non-empty array of objects, reported at path when absent
+  const list = (obj: Obj, key: string, path: string): Obj[] => {
+    const value = obj[key];
+    if (!Array.isArray(value) || value.length === 0) {
+      error(`${path}.${key}`, "missing or empty");
+      return [];
+    }
+    return value.map((item, i) => {
+      if (isObject(item)) return item;
+      error(`${path}.${key}[${i}]`, "not an object");
+      return {};
+    });
+  };
+
+  const server = (entry: Obj, path: string) => {
+    required(entry, "address", path);
+    port(entry, "port", path);
+  };
+
+  return { items, error, warning, required, port, list, server };
+}
+
+// XTLS Vision only runs over a raw TCP stream wrapped in TLS or REALITY
+function supportsVision(stream: StreamSettings | undefined): boolean {
+  const network = String(stream?.network || "tcp");
+  const security = String(stream?.security || "none");
+  return ["tcp", "raw"].includes(network) && security !== "none";
+}
+
+function validateStream(
+  c: Collector,
+  stream: StreamSettings | undefined,
+  path: string
+) {
+  const network = String(stream?.network || "tcp");
+  const security = String(stream?.security || "none");
+
+  if (stream !== undefined && !isObject(stream)) {
+    c.error(path, "not an object");
+    return;
+  }
+  if (!NETWORKS.includes(network)) {
+    c.error(`${path}.network`, `unknown network "${network}"`);
+  }
+  if (!["none", "tls", "reality"].includes(security)) {
+    c.error(`${path}.security`, `unknown security "${security}"`);
+  }
+
+  if (security === "reality") {
+    const rs = stream?.realitySettings;
+    if (!isObject(rs)) {
+      c.error(`${path}.realitySettings`, "REALITY without realitySettings");
+      return;
+    }
+    const rsPath = `${path}.realitySettings`;
+    if (isBlank(rs.publicKey) && isBlank(rs.password)) {
+      c.error(
+        rsPath,
+        rs.privateKey
+          ? "REALITY without publicKey (privateKey is server-side; derive the public key)"
+          : "REALITY without publicKey"
+      );
+    }
+    if (isBlank(rs.serverName) && !Array.isArray(rs.serverNames)) {
+      c.error(`${rsPath}.serverName`, "missing");
+    }
+    const shortIds = rs.shortId !== undefined ? [rs.shortId] : rs.shortIds;
+    if (Array.isArray(shortIds)) {
+      shortIds.forEach((sid) => {
+        const value = String(sid ?? "");
+        if (!/^[0-9a-f]{0,16}$/i.test(value) || value.length % 2 !== 0) {
+          c.error(
+            `${rsPath}.${rs.shortId !== undefined ? "shortId" : "shortIds"}`,
+            `"${value}" is not an even-length hex string of up to 16 characters`
+          );
+        }
+      });
+    }
+    if (isBlank(rs.fingerprint)) {
+      c.warning(
+        `${rsPath}.fingerprint`,
+        "missing; clients fall back to chrome"
+      );
+    }
+  }
+
+  if (security === "tls") {
+    const ts = stream?.tlsSettings;
+    if (!isObject(ts) || isBlank(ts.serverName)) {
+      c.warning(
+        `${path}.tlsSettings.serverName`,
+        "missing; clients will send the server address as SNI"
+      );
+    }
+    if (isObject(ts) && ts.allowInsecure) {
+      c.warning(
+        `${path}.tlsSettings.allowInsecure`,
+        "certificate checks are disabled"
+      );
+    }
+  }
+
+  if (network === "grpc") {
+    const grpc = stream?.grpcSettings;
+    if (!isObject(grpc) || isBlank(grpc.serviceName)) {
+      c.warning(`${path}.grpcSettings.serviceName`, "missing");
+    }
+  }
+
+  if (network === "ws" && isObject(stream?.wsSettings)) {
+    const wsPath = stream.wsSettings.path;
+    if (!isBlank(wsPath) && !String(wsPath).startsWith("/")) {
+      c.warning(`${path}.wsSettings.path`, `"${wsPath}" should start with "/"`);
+    }
+  }
+}
+
+function validateVnext(c: Collector, ob: Outbound, path: string) {
+  const settings = (ob.settings || {}) as Obj;
+  c.list(settings, "vnext", `${path}.settings`).forEach((server, i) => {
+    const serverPath = `${path}.settings.vnext[${i}]`;
+    c.server(server, serverPath);
+    c.list(server, "users", serverPath).forEach((user, j) => {
+      const userPath = `${serverPath}.users[${j}]`;
+      if (c.required(user, "id", userPath)) {
+        const id = String(user.id);
+        if (!UUID_RE.test(id)) {
+          // Xray maps short strings to a UUIDv5, but many clients do not
+          if (ob.protocol === "vless" && id.length <= 30) {
+            c.warning(`${userPath}.id`, "not a UUID; Xray maps it to UUIDv5");
+          } else {
+            c.error(`${userPath}.id`, "not a UUID");
+          }
+        }
+      }
+
+      const flow = String(user.flow ?? "");
+      if (ob.protocol === "vless") {
+        if (!VLESS_FLOWS.includes(flow)) {
+          c.error(`${userPath}.flow`, `unknown flow "${flow}"`);
+        } else if (flow && !supportsVision(ob.streamSettings)) {
+          const stream = ob.streamSettings;
+          c.error(
+            `${userPath}.flow`,
+            `"${flow}" needs a tcp/raw stream with tls or reality (got ${stream?.network || "tcp"}/${stream?.security || "none"})`
+          );
+        }
+      } else {
+        if (Number(user.alterId || 0) > 0) {
+          c.warning(
+            `${userPath}.alterId`,
+            "legacy MD5 auth; current Xray only speaks AEAD (alterId 0)"
+          );
+        }
+        const security = String(user.security ?? "auto");
+        if (!VMESS_SECURITY.includes(security)) {
+          c.error(`${userPath}.security`, `unknown cipher "${security}"`);
+        }
+      }
+    });
+  });
+  validateStream(c, ob.streamSettings, `${path}.streamSettings`);
+}
+
+function validateServers(c: Collector, ob: Outbound, path: string) {
+  const settings = (ob.settings || {}) as Obj;
+  // Flat single-server form used by socks, http, hysteria2 and tuic
+  const servers =
+    !Array.isArray(settings.servers) && !isBlank(settings.address)
+      ? [{ server: settings, path: `${path}.settings` }]
+      : c.list(settings, "servers", `${path}.settings`).map((server, i) => ({
+          server,
+          path: `${path}.settings.servers[${i}]`,
+        }));
+
+  for (const { server, path: serverPath } of servers) {
+    const hopping =
+      (ob.protocol === "hysteria2" || ob.protocol === "hysteria") &&
+      !isBlank(server.ports);
+    if (hopping) {
+      // A port hopping range stands in for the port
+      c.required(server, "address", serverPath);
+      if (!isBlank(server.port)) c.port(server, "port", serverPath);
+      if (!PORT_RANGES_RE.test(String(server.ports))) {
+        c.error(
+          `${serverPath}.ports`,
+          `"${server.ports}" is not a port range such as 20000-30000`
+        );
+      }
+    } else {
+      c.server(server, serverPath);
+    }
+    switch (ob.protocol) {
+      case "trojan":
+        c.required(server, "password", serverPath);
+        break;
+      case "shadowsocks":
+      case "ss":
+        if (
+          c.required(server, "method", serverPath) &&
+          !isSupportedSsMethod(String(server.method))
+        ) {
+          c.error(
+            `${serverPath}.method`,
+            `"${server.method}" is not a cipher Xray accepts`
+          );
+        }
+        c.required(server, "password", serverPath);
+        break;
+      case "tuic":
+        c.required(server, "uuid", serverPath);
+        break;
+    }
+  }
+  validateStream(c, ob.streamSettings, `${path}.streamSettings`);
+}
+
+function validateWireguard(c: Collector, ob: Outbound, path: string) {
+  const settings = (ob.settings || {}) as Obj;
+  c.required(settings, "secretKey", `${path}.settings`);
+  c.list(settings, "peers", `${path}.settings`).forEach((peer, i) => {
+    const peerPath = `${path}.settings.peers[${i}]`;
+    c.required(peer, "publicKey", peerPath);
+    if (c.required(peer, "endpoint", peerPath)) {
+      const endpoint = String(peer.endpoint);
+      const port = Number(endpoint.slice(endpoint.lastIndexOf(":") + 1));
+      if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        c.error(`${peerPath}.endpoint`, `"${endpoint}" has no valid port`);
+      }
+    }
+  });
+}
+
+export function validateOutbound(
+  outbound: unknown,
+  path: string
+): Diagnostic[] {
+  const c = createCollector();
+  if (!isObject(outbound)) {
+    c.error(path, "not an object");
+    return c.items;
+  }
+  const ob = outbound as unknown as Outbound;
+  if (isBlank(ob.protocol)) {
+    c.error(`${path}.protocol`, "missing");
+    return c.items;
+  }
+  if (ob.settings !== undefined && !isObject(ob.settings)) {
+    c.error(`${path}.settings`, "not an object");
+    return c.items;
+  }
+
+  switch (ob.protocol) {
+    case "vless":
+    case "vmess":
+      validateVnext(c, ob, path);
+      break;
+    case "trojan":
+    case "shadowsocks":
+    case "ss":
+    case "socks":
+    case "http":
+    case "hysteria2":
+    case "hysteria":
+    case "tuic":
+      validateServers(c, ob, path);
+      break;
+    case "wireguard":
+      validateWireguard(c, ob, path);
+      break;
+    case "freedom":
+    case "blackhole":
+    case "dns":
+    case "loopback":
+      break;
+    default:
+      c.warning(`${path}.protocol`, `unsupported protocol "${ob.protocol}"`);
+  }
+  return c.items;
+}
+
+export function validateConfig(config: unknown): Diagnostic[] {
+  const c = createCollector();
+  if (!isObject(config)) {
+    c.error("(root)", "config must be a JSON object");
+    return c.items;
+  }
+  const cfg = config as XrayConfig;
+  if (cfg.remarks !== undefined && typeof cfg.remarks !== "string") {
+    c.warning("remarks", "not a string");
+  }
+  if (!Array.isArray(cfg.outbounds)) {
+    c.error(
+      "outbounds",
+      cfg.outbounds === undefined ? "missing" : "not an array"
+    );
+    return c.items;
+  }
+  const items = [...c.items];
+  cfg.outbounds.forEach((ob, i) => {
+    items.push(...validateOutbound(ob, `outbounds[${i}]`));
+  });
+  // A chain through a missing tag makes Xray refuse the whole config
+  const tags = new Set(cfg.outbounds.map((ob) => isObject(ob) && ob.tag));
+  cfg.outbounds.forEach((ob, i) => {
+    const dialer = isObject(ob) && ob.streamSettings?.sockopt?.dialerProxy;
+    if (typeof dialer === "string" && dialer && !tags.has(dialer)) {
+      items.push({
+        path: `outbounds[${i}].streamSettings.sockopt.dialerProxy`,
+        message: `no outbound is tagged "${dialer}"`,
+        severity: "warning",
+      });
+    }
+  });
+  return items;
+}
+
+// Whether any error sits at or below the given path
+export function hasErrorsAt(diagnostics: Diagnostic[], path: string): boolean {
+  return diagnostics.some(
+    (d) =>
+      d.severity === "error" &&
+      (d.path === path ||
+        d.path.startsWith(`${path}.`) ||
+        d.path.startsWith(`${path}[`))
+  );
+}
@@ -0,0 +1,65 @@
+export type YamlValue =
+  | string
+  | number
+  | boolean
+  | null
+  | YamlValue[]
+  | { [key: string]: YamlValue | undefined };
+
+function isInline(value: YamlValue): boolean {
+  if (value === null || typeof value !== "object") return true;
+  if (Array.isArray(value)) return value.length === 0;
+  return Object.keys(value).length === 0;
+}
+
+function inline(value: YamlValue): string {
+  if (Array.isArray(value)) return "[]";
+  if (value === null) return "null";
+  if (typeof value === "object") return "{}";
+  // Double-quoted YAML scalars accept JSON string escapes
+  if (typeof value === "string") return JSON.stringify(value);
+  return String(value);
+}
+
+function key(name: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(name) ? name : JSON.stringify(name);
+}
+
+function emit(value: YamlValue, indent: number): string[] {
+  const pad = " ".repeat(indent);
+  const lines: string[] = [];
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (isInline(item)) {
+        lines.push(`${pad}- ${inline(item)}`);
+      } else {
+        const nested = emit(item, indent + 2);
+        lines.push(
+          `${pad}- ${nested[0].slice(indent + 2)}`,
+          ...nested.slice(1)
+        );
+      }
+    }
+    return lines;
+  }
+
+  if (value !== null && typeof value === "object") {
+    for (const [name, child] of Object.entries(value)) {
+      if (child === undefined) continue;
+      if (isInline(child)) {
+        lines.push(`${pad}${key(name)}: ${inline(child)}`);
+      } else {
+        lines.push(`${pad}${key(name)}:`, ...emit(child, indent + 2));
+      }
+    }
+    return lines;
+  }
+
+  return [`${pad}${inline(value)}`];
+}
+
+// Block-style YAML for plain data; just enough for Clash configs
+export function toYaml(value: YamlValue): string {
+  return emit(value, 0).join("\n") + "\n";
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { parseLinks, toLinks } from "./converter";
+import { SAMPLE_CONFIGS, SAMPLE_LINK } from "./samples";
+
+describe("samples", () => {
+  it("converts the sample config to the sample link without errors", () => {
+    const result = toLinks(JSON.stringify(SAMPLE_CONFIGS, null, 2));
+    expect(result.errors).toEqual([]);
+    expect(result.reports).toEqual([]);
+    expect(result.links).toEqual([SAMPLE_LINK]);
+  });
+
+  it("reads the sample link back", () => {
+    expect(parseLinks(SAMPLE_LINK).errors).toEqual([]);
+  });
+});
@@ -0,0 +1,49 @@
+import type { XrayConfig } from "./converter";
+
+// What "Load Sample" puts in the input: one VLESS over xhttp with REALITY,
+// as a config and as the link the converter writes for it
+export const SAMPLE_CONFIGS: XrayConfig[] = [
+  {
+    remarks: "Sample VLESS Config",
+    outbounds: [
+      {
+        protocol: "vless",
+        tag: "proxy",
+        settings: {
+          vnext: [
+            {
+              address: "203.0.113.10",
+              port: 8443,
+              users: [
+                {
+                  id: "b831381d-6324-4d53-ad4f-8cda48b30811",
+                  encryption: "none",
+                },
+              ],
+            },
+          ],
+        },
+        streamSettings: {
+          network: "xhttp",
+          security: "reality",
+          realitySettings: {
+            serverName: "mail.ru",
+            publicKey: "Z84J2IelR9ch3k8VtlVhhs5ycBUlXA7wHBWcBrjqnAw",
+            shortId: "6ba85179e30d4fc2",
+            fingerprint: "chrome",
+          },
+          xhttpSettings: {
+            path: "/ph",
+            mode: "auto",
+            host: "hs.example",
+          },
+        },
+      },
+      { protocol: "freedom", tag: "direct" },
+      { protocol: "blackhole", tag: "block" },
+    ],
+  },
+];
+
+export const SAMPLE_LINK =
+  "vless://b831381d-6324-4d53-ad4f-8cda48b30811@203.0.113.10:8443?encryption=none&type=xhttp&security=reality&sni=mail.ru&fp=chrome&pbk=Z84J2IelR9ch3k8VtlVhhs5ycBUlXA7wHBWcBrjqnAw&sid=6ba85179e30d4fc2&path=%2Fph&host=hs.example&mode=auto#Sample%20VLESS%20Config";
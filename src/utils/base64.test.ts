@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { decodeBase64, encodeBase64, encodeBase64Url } from "./base64";
+
+describe("base64", () => {
+  for (const text of ["Пароль", "🔑 key", "a+b/c=", "plain"]) {
+    it(`round-trips ${JSON.stringify(text)}`, () => {
+      expect(decodeBase64(encodeBase64(text))).toBe(text);
+      expect(decodeBase64(encodeBase64Url(text))).toBe(text);
+    });
+  }
+
+  it("uses the url alphabet without padding", () => {
+    // ">>>?" encodes to "Pj4+Pw==" in the standard alphabet
+    expect(encodeBase64(">>>?")).toBe("Pj4+Pw==");
+    expect(encodeBase64Url(">>>?")).toBe("Pj4-Pw");
+  });
+
+  it("rejects bytes that are not UTF-8", () => {
+    expect(() => decodeBase64("/w==")).toThrow();
+  });
+});
@@ -0,0 +1,38 @@
+// btoa/atob only handle Latin-1, so text goes through UTF-8 bytes first
+
+function bytesToBinary(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return binary;
+}
+
+export function encodeBase64(text: string): string {
+  return btoa(bytesToBinary(new TextEncoder().encode(text)));
+}
+
+// RFC 4648 §5 alphabet without padding, as SIP002 userinfo uses
+export function encodeBase64Url(text: string): string {
+  return encodeBase64(text)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+// Raw bytes, such as x25519 keys, in the url alphabet without padding
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  return btoa(bytesToBinary(bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+// Accepts both alphabets, with or without padding
+export function base64ToBytes(input: string): Uint8Array {
+  let b64 = input.trim().replace(/-/g, "+").replace(/_/g, "/");
+  while (b64.length % 4 !== 0) b64 += "=";
+  return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+}
+
+export function decodeBase64(input: string): string {
+  return new TextDecoder("utf-8", { fatal: true }).decode(base64ToBytes(input));
+}
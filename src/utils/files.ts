@@ -0,0 +1,67 @@
+// Walks dropped items, descending into folders. Falls back to the flat file
+// list where the browser has no entry API.
+export async function collectDroppedFiles(
+  dataTransfer: DataTransfer
+): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  const files: File[] = [];
+  for (const entry of entries) files.push(...(await readEntry(entry)));
+  return files;
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    // Keep the folder path so same-named files stay distinguishable
+    const path = entry.fullPath.replace(/^\//, "");
+    return [
+      path === file.name ? file : new File([file], path, { type: file.type }),
+    ];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+  // readEntries returns at most ~100 entries per call
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (batch.length === 0) return files;
+    for (const child of batch) files.push(...(await readEntry(child)));
+  }
+}
+
+// Name shown for a file: the relative path for folder picks, else the name
+export function displayName(file: File): string {
+  return file.webkitRelativePath || file.name;
+}
+
+export function hasExtension(name: string, extensions: string[]): boolean {
+  const lower = name.toLowerCase();
+  return extensions.some((ext) => lower.endsWith(ext));
+}
+
+// How long a download's object URL outlives the click. Firefox and Safari
+// fetch the blob after click() returns and cancel the download when the URL
+// is already gone.
+const REVOKE_DELAY_MS = 40_000;
+
+// Saves a blob under the given name. The anchor is attached for the click,
+// since Firefox ignores clicks on detached ones.
+export function downloadBlob(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.style.display = "none";
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
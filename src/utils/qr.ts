@@ -0,0 +1,78 @@
+import qrcode from "qrcode-generator";
+
+// Payloads past this many bytes need version 15+ symbols, which phone cameras
+// often fail to focus on from a screen
+export const QR_COMFORTABLE_BYTES = 500;
+
+export interface QrMatrix {
+  size: number;
+  isDark: (row: number, col: number) => boolean;
+  // UTF-8 length of the encoded text
+  bytes: number;
+}
+
+// Encodes text as a byte-mode QR code at level M, dropping to L when the text
+// would not fit otherwise. Returns null when it is too long even for that.
+export function encodeQr(text: string): QrMatrix | null {
+  const utf8 = new TextEncoder().encode(text);
+  // The library maps each char code to one byte, so feed it UTF-8 as binary
+  let binary = "";
+  for (const b of utf8) binary += String.fromCharCode(b);
+
+  for (const level of ["M", "L"] as const) {
+    const qr = qrcode(0, level);
+    qr.addData(binary, "Byte");
+    try {
+      qr.make();
+    } catch {
+      continue;
+    }
+    return {
+      size: qr.getModuleCount(),
+      isDark: (row, col) => qr.isDark(row, col),
+      bytes: utf8.length,
+    };
+  }
+  return null;
+}
+
+// One path of unit squares, with the 4-module quiet zone the spec asks for
+export function qrToSvg(qr: QrMatrix, margin = 4): string {
+  const full = qr.size + margin * 2;
+  let d = "";
+  for (let row = 0; row < qr.size; row++) {
+    for (let col = 0; col < qr.size; col++) {
+      if (qr.isDark(row, col)) d += `M${col + margin} ${row + margin}h1v1h-1z`;
+    }
+  }
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${full} ${full}" shape-rendering="crispEdges">` +
+    `<rect width="${full}" height="${full}" fill="#fff"/>` +
+    `<path d="${d}" fill="#000"/></svg>`
+  );
+}
+
+export function qrToPngDataUrl(qr: QrMatrix, scale = 10, margin = 4): string {
+  const full = (qr.size + margin * 2) * scale;
+  const canvas = document.createElement("canvas");
+  canvas.width = full;
+  canvas.height = full;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("canvas is not available");
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, full, full);
+  ctx.fillStyle = "#000";
+  for (let row = 0; row < qr.size; row++) {
+    for (let col = 0; col < qr.size; col++) {
+      if (qr.isDark(row, col)) {
+        ctx.fillRect(
+          (col + margin) * scale,
+          (row + margin) * scale,
+          scale,
+          scale
+        );
+      }
+    }
+  }
+  return canvas.toDataURL("image/png");
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import {
+  addHistory,
+  emptyWorkspace,
+  HISTORY_LIMIT,
+  loadWorkspace,
+  mergeWorkspace,
+  parseWorkspace,
+  saveInput,
+  saveWorkspace,
+  updateProfile,
+  WORKSPACE_KEY,
+  type HistoryEntry,
+} from "./workspace";
+
+// Storage that refuses anything longer than quota characters
+function memoryStorage(quota = Infinity): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (i) => [...items.keys()][i] ?? null,
+    removeItem: (key) => void items.delete(key),
+    setItem: (key, value) => {
+      if (value.length > quota) throw new Error("QuotaExceededError");
+      items.set(key, value);
+    },
+  };
+}
+
+function entry(at: number): HistoryEntry {
+  return {
+    at,
+    mode: "toLinks",
+    input: "{}",
+    files: [],
+    output: `link ${at}`,
+    count: 1,
+  };
+}
+
+describe("workspace", () => {
+  it("survives a save and load", () => {
+    const storage = memoryStorage();
+    let workspace = saveInput(emptyWorkspace(), {
+      name: "weekly",
+      mode: "toClash",
+      text: "{}",
+      savedAt: 1,
+    });
+    workspace = updateProfile(addHistory(workspace, entry(5)), {
+      remarksTemplate: "{flag} {remarks}",
+    });
+    saveWorkspace(workspace, storage);
+    expect(loadWorkspace(storage)).toEqual(workspace);
+  });
+
+  it("starts empty when the stored value is broken", () => {
+    const storage = memoryStorage();
+    storage.setItem(WORKSPACE_KEY, "{not json");
+    expect(loadWorkspace(storage)).toEqual(emptyWorkspace());
+  });
+
+  it("drops the oldest history when the quota is reached", () => {
+    let workspace = emptyWorkspace();
+    for (let at = 1; at <= 5; at++)
+      workspace = addHistory(workspace, entry(at));
+    const size = JSON.stringify(workspace).length;
+    const storage = memoryStorage(size - 10);
+    expect(saveWorkspace(workspace, storage)).toBe(1);
+    expect(loadWorkspace(storage).history.map((h) => h.at)).toEqual([
+      5, 4, 3, 2,
+    ]);
+  });
+
+  it("caps the history", () => {
+    let workspace = emptyWorkspace();
+    for (let at = 0; at < HISTORY_LIMIT + 5; at++) {
+      workspace = addHistory(workspace, entry(at));
+    }
+    expect(workspace.history).toHaveLength(HISTORY_LIMIT);
+    expect(workspace.history[0].at).toBe(HISTORY_LIMIT + 4);
+  });
+
+  it("keeps the valid parts of an imported file", () => {
+    const workspace = parseWorkspace(
+      JSON.stringify({
+        version: 1,
+        profiles: [{ name: "work", dedupe: true }, { dedupe: true }],
+        activeProfile: "gone",
+        inputs: [{ name: "a", text: "x" }, { name: 3 }],
+      })
+    );
+    expect(workspace.profiles).toEqual([
+      {
+        name: "work",
+        mode: "toLinks",
+        remarksTemplate: "",
+        countries: "",
+        dedupe: true,
+      },
+    ]);
+    expect(workspace.activeProfile).toBe("work");
+    expect(workspace.inputs).toHaveLength(1);
+  });
+
+  it("rejects files that are not workspaces", () => {
+    expect(() => parseWorkspace("[]")).toThrow("no version field");
+    expect(() => parseWorkspace('{"version": 99}')).toThrow("newer");
+  });
+
+  it("merges an import, letting its entries win on a name clash", () => {
+    const base = saveInput(addHistory(emptyWorkspace(), entry(1)), {
+      name: "a",
+      mode: "toLinks",
+      text: "old",
+      savedAt: 1,
+    });
+    const added = saveInput(addHistory(emptyWorkspace(), entry(2)), {
+      name: "a",
+      mode: "toLinks",
+      text: "new",
+      savedAt: 2,
+    });
+    const merged = mergeWorkspace(base, added);
+    expect(merged.inputs.map((i) => i.text)).toEqual(["new"]);
+    expect(merged.history.map((h) => h.at)).toEqual([2, 1]);
+    expect(merged.profiles).toHaveLength(1);
+  });
+});
@@ -0,0 +1,251 @@
+// Saved inputs, conversion history and named profiles, kept in localStorage
+// so the single-file build needs nothing but the browser
+
+export const WORKSPACE_KEY = "xray-converter.workspace";
+const VERSION = 1;
+// Entries beyond this are dropped, oldest first
+export const HISTORY_LIMIT = 30;
+
+export interface SavedInput {
+  name: string;
+  mode: string;
+  text: string;
+  savedAt: number;
+}
+
+export interface HistoryEntry {
+  at: number;
+  mode: string;
+  // Pasted text; loaded files are named but not kept
+  input: string;
+  files: string[];
+  // The links one per line, or the YAML/JSON document
+  output: string;
+  count: number;
+}
+
+// Remarks template and output preferences, switched as a set
+export interface Profile {
+  name: string;
+  mode: string;
+  remarksTemplate: string;
+  countries: string;
+  dedupe: boolean;
+}
+
+export interface Workspace {
+  version: number;
+  profiles: Profile[];
+  activeProfile: string;
+  inputs: SavedInput[];
+  history: HistoryEntry[];
+  // What was in the input box when the page was left
+  current: { mode: string; text: string };
+}
+
+export function defaultProfile(name = "Default"): Profile {
+  return {
+    name,
+    mode: "toLinks",
+    remarksTemplate: "",
+    countries: "",
+    dedupe: false,
+  };
+}
+
+export function emptyWorkspace(): Workspace {
+  return {
+    version: VERSION,
+    profiles: [defaultProfile()],
+    activeProfile: "Default",
+    inputs: [],
+    history: [],
+    current: { mode: "toLinks", text: "" },
+  };
+}
+
+type Obj = Record<string, unknown>;
+
+function isObject(value: unknown): value is Obj {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function str(value: unknown, fallback = ""): string {
+  return typeof value === "string" ? value : fallback;
+}
+
+function num(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+function listOf<T>(value: unknown, read: (item: Obj) => T | null): T[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item) => {
+    const parsed = isObject(item) ? read(item) : null;
+    return parsed ? [parsed] : [];
+  });
+}
+
+// Reads a stored or imported workspace, keeping every well-formed entry and
+// filling in what is missing. Throws when the text is not a workspace at all.
+export function parseWorkspace(text: string): Workspace {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("not a workspace file: invalid JSON");
+  }
+  if (!isObject(data) || typeof data.version !== "number") {
+    throw new Error("not a workspace file: no version field");
+  }
+  if (data.version > VERSION) {
+    throw new Error(
+      `workspace version ${data.version} is newer than this page understands`
+    );
+  }
+
+  const profiles = listOf(data.profiles, (p) =>
+    typeof p.name === "string" && p.name
+      ? {
+          name: p.name,
+          mode: str(p.mode, "toLinks"),
+          remarksTemplate: str(p.remarksTemplate),
+          countries: str(p.countries),
+          dedupe: p.dedupe === true,
+        }
+      : null
+  );
+  if (profiles.length === 0) profiles.push(defaultProfile());
+  const active = str(data.activeProfile);
+  const current = isObject(data.current) ? data.current : {};
+
+  return {
+    version: VERSION,
+    profiles,
+    activeProfile: profiles.some((p) => p.name === active)
+      ? active
+      : profiles[0].name,
+    inputs: listOf(data.inputs, (i) =>
+      typeof i.name === "string" && typeof i.text === "string"
+        ? {
+            name: i.name,
+            mode: str(i.mode, "toLinks"),
+            text: i.text,
+            savedAt: num(i.savedAt),
+          }
+        : null
+    ),
+    history: listOf(data.history, (h) =>
+      typeof h.input === "string" && typeof h.output === "string"
+        ? {
+            at: num(h.at),
+            mode: str(h.mode, "toLinks"),
+            input: h.input,
+            files: Array.isArray(h.files) ? h.files.map(String) : [],
+            output: h.output,
+            count: num(h.count),
+          }
+        : null
+    ).slice(0, HISTORY_LIMIT),
+    current: { mode: str(current.mode, "toLinks"), text: str(current.text) },
+  };
+}
+
+export function loadWorkspace(storage?: Storage): Workspace {
+  let text: string | null = null;
+  try {
+    text = (storage ?? localStorage).getItem(WORKSPACE_KEY);
+  } catch {
+    // Storage is blocked, e.g. for file:// pages in some browsers
+  }
+  if (!text) return emptyWorkspace();
+  try {
+    return parseWorkspace(text);
+  } catch {
+    // A broken entry must not lock the user out of the page
+    return emptyWorkspace();
+  }
+}
+
+// Stores the workspace, dropping the oldest history when the browser's quota
+// is reached. Returns how many history entries had to go; throws when even
+// an empty history does not fit.
+export function saveWorkspace(
+  workspace: Workspace,
+  storage: Storage = localStorage
+): number {
+  for (let keep = workspace.history.length; keep >= 0; keep--) {
+    const trimmed = { ...workspace, history: workspace.history.slice(0, keep) };
+    try {
+      storage.setItem(WORKSPACE_KEY, JSON.stringify(trimmed));
+      return workspace.history.length - keep;
+    } catch (e) {
+      if (keep === 0) throw e;
+    }
+  }
+  return 0;
+}
+
+// Newest first, capped at HISTORY_LIMIT
+export function addHistory(
+  workspace: Workspace,
+  entry: HistoryEntry
+): Workspace {
+  return {
+    ...workspace,
+    history: [entry, ...workspace.history].slice(0, HISTORY_LIMIT),
+  };
+}
+
+// Replaces a saved input of the same name, so saving again updates it
+export function saveInput(workspace: Workspace, input: SavedInput): Workspace {
+  return {
+    ...workspace,
+    inputs: [
+      input,
+      ...workspace.inputs.filter((other) => other.name !== input.name),
+    ],
+  };
+}
+
+export function updateProfile(
+  workspace: Workspace,
+  changes: Partial<Omit<Profile, "name">>
+): Workspace {
+  return {
+    ...workspace,
+    profiles: workspace.profiles.map((profile) =>
+      profile.name === workspace.activeProfile
+        ? { ...profile, ...changes }
+        : profile
+    ),
+  };
+}
+
+export function activeProfile(workspace: Workspace): Profile {
+  return (
+    workspace.profiles.find((p) => p.name === workspace.activeProfile) ||
+    workspace.profiles[0]
+  );
+}
+
+// Adds an imported workspace to this one: its profiles and saved inputs win
+// on a name clash, and both histories are kept
+export function mergeWorkspace(base: Workspace, added: Workspace): Workspace {
+  const addedProfiles = new Set(added.profiles.map((p) => p.name));
+  const addedInputs = new Set(added.inputs.map((i) => i.name));
+  return {
+    ...base,
+    profiles: [
+      ...base.profiles.filter((p) => !addedProfiles.has(p.name)),
+      ...added.profiles,
+    ],
+    inputs: [
+      ...added.inputs,
+      ...base.inputs.filter((i) => !addedInputs.has(i.name)),
+    ],
+    history: [...base.history, ...added.history]
+      .sort((a, b) => b.at - a.at)
+      .slice(0, HISTORY_LIMIT),
+  };
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { x25519, x25519PublicKey } from "./x25519";
+
+const fromHex = (hex: string) =>
+  Uint8Array.from(hex.match(/../g)!, (b) => parseInt(b, 16));
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+// Test vectors from RFC 7748 §5.2 and §6.1
+describe("x25519", () => {
+  it("multiplies a scalar by a point", () => {
+    const scalar = fromHex(
+      "a546e36bf0527c9d3b16154b82465edd62144c0ac1fc5a18506a2244ba449ac4"
+    );
+    const u = fromHex(
+      "e6db6867583030db3594c1a424b15f7c726624ec26b3353b10a903a6d0ab1c4c"
+    );
+    expect(toHex(x25519(scalar, u))).toBe(
+      "c3da55379de9c6908e94ea4df28d084f32eccf03491c71f754b4075577a28552"
+    );
+  });
+
+  it("derives the public key", () => {
+    const privateKey = fromHex(
+      "77076d0a7318a57d3c16c17251b26645df4c2f87ebc0992ab177fba51db92c2a"
+    );
+    expect(toHex(x25519PublicKey(privateKey))).toBe(
+      "8520f0098930a754748b7ddcb43ef75a0dbf3a0d26381af4eba4a98eaa9b4e6a"
+    );
+  });
+});
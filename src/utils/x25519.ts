@@ -0,0 +1,82 @@
+// X25519 (RFC 7748) on BigInt, enough to turn a REALITY private key into
+// its public key without sending it anywhere. Not constant-time; fine for
+// keys the user already holds, not for a server.
+
+const P = 2n ** 255n - 19n;
+const A24 = 121665n;
+
+function mod(a: bigint): bigint {
+  const r = a % P;
+  return r >= 0n ? r : r + P;
+}
+
+function pow(base: bigint, exp: bigint): bigint {
+  let result = 1n;
+  base = mod(base);
+  while (exp > 0n) {
+    if (exp & 1n) result = mod(result * base);
+    base = mod(base * base);
+    exp >>= 1n;
+  }
+  return result;
+}
+
+function fromLittleEndian(bytes: Uint8Array): bigint {
+  let n = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) n = (n << 8n) | BigInt(bytes[i]);
+  return n;
+}
+
+function toLittleEndian(n: bigint): Uint8Array {
+  const bytes = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    bytes[i] = Number(n & 0xffn);
+    n >>= 8n;
+  }
+  return bytes;
+}
+
+export function x25519(scalar: Uint8Array, u: Uint8Array): Uint8Array {
+  if (scalar.length !== 32 || u.length !== 32) {
+    throw new Error("x25519 keys are 32 bytes");
+  }
+  const k = scalar.slice();
+  k[0] &= 248;
+  k[31] &= 127;
+  k[31] |= 64;
+  const kn = fromLittleEndian(k);
+  const uMasked = u.slice();
+  uMasked[31] &= 127;
+  const x1 = mod(fromLittleEndian(uMasked));
+
+  let [x2, z2, x3, z3] = [1n, 0n, x1, 1n];
+  let swap = 0n;
+  for (let t = 254n; t >= 0n; t--) {
+    const bit = (kn >> t) & 1n;
+    if (swap ^ bit) [x2, x3, z2, z3] = [x3, x2, z3, z2];
+    swap = bit;
+
+    const a = mod(x2 + z2);
+    const aa = mod(a * a);
+    const b = mod(x2 - z2);
+    const bb = mod(b * b);
+    const e = mod(aa - bb);
+    const c = mod(x3 + z3);
+    const d = mod(x3 - z3);
+    const da = mod(d * a);
+    const cb = mod(c * b);
+    x3 = mod((da + cb) ** 2n);
+    z3 = mod(x1 * mod((da - cb) ** 2n));
+    x2 = mod(aa * bb);
+    z2 = mod(e * (aa + A24 * e));
+  }
+  if (swap) [x2, z2] = [x3, z3];
+  return toLittleEndian(mod(x2 * pow(z2, P - 2n)));
+}
+
+const BASE_POINT = new Uint8Array(32);
+BASE_POINT[0] = 9;
+
+export function x25519PublicKey(privateKey: Uint8Array): Uint8Array {
+  return x25519(privateKey, BASE_POINT);
+}
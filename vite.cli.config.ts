@@ -0,0 +1,17 @@
+import { defineConfig } from "vite";
+
+// Bundles the command-line converter into one Node script:
+// npm run build:cli && node dist/cli/xray-links.js configs/*.json
+export default defineConfig({
+  build: {
+    ssr: "src/cli/main.ts",
+    outDir: "dist/cli",
+    target: "node20",
+    rollupOptions: {
+      output: {
+        entryFileNames: "xray-links.js",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+});